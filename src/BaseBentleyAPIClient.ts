@@ -3,8 +3,41 @@
  * See LICENSE.md in the project root for license terms and full copyright notice.
  *--------------------------------------------------------------------------------------------*/
 import type { AccessToken } from "@itwin/core-bentley";
-import type { ApimError, BentleyAPIResponse, Method, RequestConfig } from "./types/CommonApiTypes";
+import type {
+  AccessTokenProvider,
+  BentleyAPIClientOptions,
+  CircuitState,
+  FetchFunction,
+  RateLimitOptions,
+  ResponseCacheOptions,
+  RetryPolicy,
+  TrustedHostPolicy,
+} from "./types/ClientOptions";
+import { BentleyAPIResponseError } from "./types/CommonApiTypes";
+import type {
+  ApimError,
+  BentleyAPIResponse,
+  CircuitOpenError,
+  Method,
+  PreconditionFailedError,
+  RedirectHop,
+  RequestConfig,
+  RequestOptions,
+  RequestPriority,
+  RequestQueueStats,
+  ResponseMeta,
+} from "./types/CommonApiTypes";
+import type {
+  BentleyAPIMiddleware,
+  MiddlewareContext,
+  MiddlewareShortCircuit,
+} from "./types/Middleware";
+import type { Link } from "./types/links";
 import { ParameterMapping } from "./types/typeUtils";
+import { CircuitBreaker } from "./CircuitBreaker";
+import type { CircuitPermit } from "./CircuitBreaker";
+import { RequestLimiter } from "./RequestLimiter";
+import { ResponseCache } from "./ResponseCache";
 
 /**
  * Type guard to validate if an object is a valid Error structure
@@ -34,6 +67,390 @@ function isErrorResponse(data: unknown): data is { error: ApimError } {
   return "error" in obj && isValidError(obj.error);
 }
 
+/**
+ * Checks whether a content type denotes a JSON body
+ * @param contentType - Lower-cased content type header value
+ * @returns True for application/json and +json media types
+ */
+function isJsonContentType(contentType: string): boolean {
+  return /^application\/([\w.-]+\+)?json\b/.test(contentType);
+}
+
+/**
+ * Checks whether a content type denotes a text body
+ * @param contentType - Lower-cased content type header value
+ * @returns True for text and XML media types
+ */
+function isTextContentType(contentType: string): boolean {
+  return contentType.startsWith("text/") || /^application\/([\w.-]+\+)?xml\b/.test(contentType);
+}
+
+/**
+ * Error thrown while handling a request that carries the response to return to the caller,
+ * and the headers of the HTTP response when the failure happened after it was received
+ */
+class RequestFailure extends Error {
+  public constructor(
+    public readonly response: BentleyAPIResponse<never>,
+    public readonly headers?: Record<string, string>
+  ) {
+    super(response.error?.message);
+  }
+}
+
+/**
+ * State shared by every fetch made for a single logical request, redirect hops included
+ */
+interface RequestContext {
+  /** Number of attempts made so far, retries included */
+  attempts: number;
+  /** Signal aborting every fetch of the request, linked to the caller signal and timeout */
+  signal?: AbortSignal;
+  /** Timeout of the whole request in milliseconds */
+  timeoutMs?: number;
+  /** Whether the request was aborted because its timeout elapsed */
+  timedOut: boolean;
+  /** Number of redirects followed so far */
+  redirectCount: number;
+  /** Redirects followed so far, in order */
+  redirects: RedirectHop[];
+  /** URL of the last response received, after redirects */
+  finalUrl?: string;
+  /** Last request configuration prepared for the request */
+  request?: RequestConfig;
+  /** State shared by the middleware hooks of the request */
+  middlewareState: Record<string, unknown>;
+  /** How the response cache served the request, undefined when it was not served from the cache */
+  cacheStatus?: "hit" | "revalidated";
+  /** Priority of every attempt of the request in the rate limit queue */
+  priority: RequestPriority;
+  /** Releases the rate limit slot held until the body of the last response was read or discarded */
+  releaseSlot?: () => void;
+}
+
+/**
+ * Releases the rate limit slot held by a request, if any
+ * @param context - State of the request
+ */
+function releaseRequestSlot(context: RequestContext): void {
+  const release = context.releaseSlot;
+  context.releaseSlot = undefined;
+  release?.();
+}
+
+/**
+ * Creates the context of a request, linking the caller signal and timeout into a single abort signal
+ * @param options - Per-call request options
+ * @returns The request context and a function releasing the timer and listeners once the request completes
+ */
+function createRequestContext(options?: RequestOptions): {
+  context: RequestContext;
+  dispose: () => void;
+} {
+  const context: RequestContext = {
+    attempts: 0,
+    timedOut: false,
+    redirectCount: 0,
+    redirects: [],
+    middlewareState: {},
+    priority: options?.priority ?? "normal",
+  };
+  const callerSignal = options?.signal;
+  const timeoutMs = options?.timeoutMs;
+  if (!callerSignal && timeoutMs === undefined) {
+    return { context, dispose: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const onCallerAbort = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) {
+    onCallerAbort();
+  } else {
+    callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+  }
+
+  const timer =
+    timeoutMs !== undefined
+      ? setTimeout(() => {
+        context.timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+      : undefined;
+
+  context.signal = controller.signal;
+  context.timeoutMs = timeoutMs;
+  return {
+    context,
+    dispose: () => {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener("abort", onCallerAbort);
+    },
+  };
+}
+
+/**
+ * HTTP methods that can be repeated without additional side effects
+ */
+const idempotentMethods: ReadonlyArray<Method> = ["GET", "PUT", "DELETE"];
+
+/**
+ * Resolves a retry policy by applying the default value of every unset option
+ * @param policy - Retry policy provided by the caller
+ * @returns Retry policy with all options set
+ */
+function resolveRetryPolicy(policy: RetryPolicy): Required<RetryPolicy> {
+  return {
+    maxAttempts: policy.maxAttempts ?? 3,
+    baseDelayMs: policy.baseDelayMs ?? 500,
+    maxDelayMs: policy.maxDelayMs ?? 30000,
+    jitter: policy.jitter ?? true,
+    retryableStatusCodes: policy.retryableStatusCodes ?? [408, 429, 500, 502, 503, 504],
+    retryOnNetworkError: policy.retryOnNetworkError ?? true,
+    respectRetryAfter: policy.respectRetryAfter ?? true,
+    retryNonIdempotent: policy.retryNonIdempotent ?? false,
+  };
+}
+
+/**
+ * Page of a listing, linking to the following page when there is one
+ */
+interface LinkedPage {
+  /** Navigation links of the page */
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  _links?: { next?: Partial<Link> };
+}
+
+/**
+ * GET request shared by every concurrent identical call
+ */
+interface InFlightRequest {
+  /** Pending response of the shared request */
+  promise: Promise<BentleyAPIResponse<unknown>>;
+  /** Aborts the shared request once every call waiting for it was cancelled */
+  controller: AbortController;
+  /** Number of calls waiting for the response */
+  subscribers: number;
+}
+
+/**
+ * Creates the key identifying identical GET requests
+ * @param accessToken - Access token of the request
+ * @param url - Absolute URL of the request
+ * @param headers - Headers of the request, default headers included
+ * @param allowRedirects - Whether redirect responses may be followed
+ * @returns Key shared by requests that can be coalesced
+ */
+function getCoalescingKey(
+  accessToken: AccessToken,
+  url: string,
+  headers: Record<string, string>,
+  allowRedirects: boolean
+): string {
+  const sortedHeaders = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return JSON.stringify([accessToken, url, allowRedirects, sortedHeaders]);
+}
+
+/**
+ * Copies a shared response so every caller can modify its own response
+ * @param response - Response shared by concurrent calls
+ * @returns A response with its own envelope, data, headers and metadata
+ */
+function copyResponse<TResponse>(response: BentleyAPIResponse<unknown>): BentleyAPIResponse<TResponse> {
+  return {
+    ...response,
+    ...(response.data !== undefined ? { data: structuredClone(response.data) as TResponse } : {}),
+    ...(response.headers ? { headers: { ...response.headers } } : {}),
+    ...(response.redirects ? { redirects: [...response.redirects] } : {}),
+    ...(response.meta ? { meta: { ...response.meta } } : {}),
+  } as BentleyAPIResponse<TResponse>;
+}
+
+/**
+ * Waits for a response unless a signal aborts first
+ * @param promise - Pending response
+ * @param signal - Signal of the waiting call
+ * @returns The response, or undefined when the signal aborted first
+ */
+async function waitForResponse<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T | undefined> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return undefined;
+  }
+  return new Promise<T | undefined>((resolve, reject) => {
+    const onAbort = () => resolve(undefined);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Gets the host a URL points to
+ * @param url - Absolute URL
+ * @returns The host name, with its port when not the default one, or the URL itself when it cannot be parsed
+ */
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Creates the request limiter of a client
+ * @param options - Rate limit option provided by the caller
+ * @returns The request limiter, or undefined when no limit is set
+ */
+function resolveRequestLimiter(options: RateLimitOptions | undefined): RequestLimiter | undefined {
+  if (options?.maxConcurrent === undefined && options?.requestsPerSecond === undefined) {
+    return undefined;
+  }
+  return new RequestLimiter(options);
+}
+
+/**
+ * Creates the response cache of a client
+ * @param options - Cache option provided by the caller
+ * @returns The response cache, or undefined when caching is disabled
+ */
+function resolveResponseCache(
+  options: boolean | ResponseCacheOptions | undefined
+): ResponseCache | undefined {
+  if (!options) {
+    return undefined;
+  }
+  return new ResponseCache(options === true ? {} : options);
+}
+
+/**
+ * Copies the headers of a response into a plain object
+ * @param headers - Headers of the response
+ * @returns Header values keyed by lower-case header name
+ */
+function getResponseHeaders(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    result[name] = value;
+  });
+  return result;
+}
+
+/**
+ * Copies the `@odata.count` annotation of a listing body into a `totalCount` property
+ * @param data - Parsed body of a successful response
+ * @returns The body, with `totalCount` set when it carries a count
+ */
+function withTotalCount(data: unknown): unknown {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return data;
+  }
+  const count = (data as Record<string, unknown>)["@odata.count"];
+  return typeof count === "number" ? { ...data, totalCount: count } : data;
+}
+
+/**
+ * Redirect status codes followed when redirects are allowed
+ */
+const redirectStatusCodes: ReadonlyArray<number> = [301, 302, 303, 307, 308];
+
+/**
+ * Gets the method of the request sent to a redirect location.
+ * 303 switches to GET, 301 and 302 switch POST to GET, and 307 and 308 keep the method.
+ * @param status - Status code of the redirect response
+ * @param method - Method of the request answered with the redirect
+ * @returns Method to use for the redirected request
+ */
+function getRedirectMethod(status: number, method: Method): Method {
+  if (status === 303 || ((status === 301 || status === 302) && method === "POST")) {
+    return "GET";
+  }
+  return method;
+}
+
+/**
+ * Hosts that plain HTTP redirects may target when the trusted host policy allows HTTP for localhost
+ */
+const localhostNames: ReadonlyArray<string> = ["localhost", "127.0.0.1", "[::1]"];
+
+/**
+ * Resolves a trusted host policy by applying the default value of every unset option
+ * @param policy - Trusted host policy provided by the caller
+ * @returns Trusted host policy with all lists set and lower-cased
+ */
+function resolveTrustedHostPolicy(
+  policy: TrustedHostPolicy
+): Required<Omit<TrustedHostPolicy, "isTrusted">> & Pick<TrustedHostPolicy, "isTrusted"> {
+  return {
+    hosts: (policy.hosts ?? ["api.bentley.com"]).map((host) => host.toLowerCase()),
+    hostSuffixes: (policy.hostSuffixes ?? ["-api.bentley.com"]).map((suffix) => suffix.toLowerCase()),
+    isTrusted: policy.isTrusted,
+    allowHttpLocalhost: policy.allowHttpLocalhost ?? false,
+    credentialHosts: (policy.credentialHosts ?? ["api.bentley.com"]).map((host) => host.toLowerCase()),
+    credentialHostSuffixes: (policy.credentialHostSuffixes ?? ["-api.bentley.com"]).map((suffix) => suffix.toLowerCase()),
+  };
+}
+
+/**
+ * Error thrown when a redirect URL violates the trusted host policy
+ */
+class RedirectPolicyViolation extends Error {
+  public constructor(
+    public readonly rule: "MalformedUrl" | "HttpsRequired" | "UntrustedHost",
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Parses a Retry-After header value expressed either in seconds or as an HTTP date
+ * @param value - Raw Retry-After header value
+ * @returns Delay in milliseconds, or undefined if the header is missing or malformed
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Waits for the given amount of time
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal ending the wait early
+ * @throws Error if the signal is aborted before the delay elapses
+ */
+async function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Delay aborted"));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Delay aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 /**
  * Base client class providing common functionality for iTwins API requests.
  * Handles authentication, request configuration, and query string building, and error validation.
@@ -50,63 +467,639 @@ export abstract class BaseBentleyAPIClient {
    */
   protected readonly _maxRedirects: number = 5;
 
-  /**
-   * Creates a new BaseClient instance for API operations
-   * @param maxRedirects - Optional custom max redirects, defaults to 5
-   *
-   * @example
-   * ```typescript
-   * // Use default max redirects
-   * const client = new BaseClient();
-   *
-   * // Use custom max redirects
-   * const client = new BaseClient(10);
-   * ```
-   */
-  public constructor(maxRedirects?: number) {
-    if (maxRedirects !== undefined) {
-      this._maxRedirects = maxRedirects;
-    } else {
-      this._maxRedirects = globalThis.IMJS_MAX_REDIRECTS ?? 5;
+  /**
+   * Custom fetch implementation used for every request.
+   * When undefined, the global fetch is resolved at request time.
+   *
+   * @readonly
+   */
+  protected readonly _fetch?: FetchFunction;
+
+  /**
+   * Headers sent with every request. Headers passed for a specific request take precedence.
+   *
+   * @readonly
+   */
+  protected readonly _defaultHeaders: Record<string, string> = {};
+
+  /**
+   * Retry policy applied to failed requests, undefined when retries are disabled.
+   *
+   * @readonly
+   */
+  protected readonly _retryPolicy?: Required<RetryPolicy>;
+
+  /**
+   * Provider of access tokens for calls made without an explicit access token.
+   *
+   * @readonly
+   */
+  protected readonly _accessTokenProvider?: AccessTokenProvider;
+
+  /**
+   * Policy deciding which hosts redirects may target.
+   *
+   * @readonly
+   */
+  protected readonly _trustedHostPolicy: Required<Omit<TrustedHostPolicy, "isTrusted">> &
+    Pick<TrustedHostPolicy, "isTrusted">;
+
+  /**
+   * Middleware applied to every request, in registration order.
+   */
+  private readonly _middleware: BentleyAPIMiddleware[] = [];
+
+  /**
+   * Cache of GET responses, undefined when caching is disabled.
+   */
+  private readonly _responseCache?: ResponseCache;
+
+  /**
+   * Whether concurrent identical GET requests share one network call.
+   */
+  private readonly _coalesceRequests: boolean;
+
+  /**
+   * GET requests in flight, keyed by token, URL and headers, when request coalescing is enabled.
+   */
+  private readonly _inFlightRequests = new Map<string, InFlightRequest>();
+
+  /**
+   * Limiter of concurrent requests and request rate, undefined when requests are not limited.
+   */
+  private readonly _requestLimiter?: RequestLimiter;
+
+  /**
+   * Per-host circuit breaker, undefined when disabled.
+   */
+  private readonly _circuitBreaker?: CircuitBreaker;
+
+  /**
+   * Creates a new BaseClient instance for API operations
+   * @param options - Optional transport options, or a custom max redirects count (defaults to 5)
+   *
+   * @example
+   * ```typescript
+   * // Use default max redirects
+   * const client = new BaseClient();
+   *
+   * // Use custom max redirects
+   * const client = new BaseClient(10);
+   *
+   * // Use custom transport options
+   * const client = new BaseClient({ maxRedirects: 10, fetch: instrumentedFetch });
+   * ```
+   */
+  public constructor(options?: number | BentleyAPIClientOptions) {
+    const resolvedOptions: BentleyAPIClientOptions =
+      typeof options === "number" ? { maxRedirects: options } : options ?? {};
+
+    if (resolvedOptions.maxRedirects !== undefined) {
+      this._maxRedirects = resolvedOptions.maxRedirects;
+    } else {
+      this._maxRedirects = globalThis.IMJS_MAX_REDIRECTS ?? 5;
+    }
+    this._fetch = resolvedOptions.fetch;
+    this._defaultHeaders = { ...resolvedOptions.defaultHeaders };
+    this._retryPolicy = resolvedOptions.retry
+      ? resolveRetryPolicy(resolvedOptions.retry)
+      : undefined;
+    this._middleware = [...(resolvedOptions.middleware ?? [])];
+    this._accessTokenProvider = resolvedOptions.accessTokenProvider;
+    this._trustedHostPolicy = resolveTrustedHostPolicy(resolvedOptions.trustedHosts ?? {});
+    this._responseCache = resolveResponseCache(resolvedOptions.cache);
+    this._coalesceRequests = resolvedOptions.coalesceRequests ?? false;
+    this._requestLimiter = resolveRequestLimiter(resolvedOptions.rateLimit);
+    this._circuitBreaker = resolvedOptions.circuitBreaker
+      ? new CircuitBreaker(resolvedOptions.circuitBreaker)
+      : undefined;
+  }
+
+  /**
+   * Appends a middleware to the request pipeline.
+   * Request hooks run in registration order before every request, redirect hops included.
+   * Response hooks run once per call on the final response, in reverse registration order.
+   *
+   * @param middleware - The middleware to append
+   * @returns This client, to allow chaining
+   *
+   * @example
+   * ```typescript
+   * client.use({
+   *   onRequest: (request) => {
+   *     request.headers["x-correlation-id"] = crypto.randomUUID();
+   *   },
+   * });
+   * ```
+   */
+  public use(middleware: BentleyAPIMiddleware): this {
+    this._middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Removes responses from the client response cache. Does nothing when caching is disabled.
+   *
+   * @param match - URL prefix or predicate selecting the responses to remove, every response when omitted
+   *
+   * @example
+   * ```typescript
+   * // Forget everything cached about one iTwin
+   * client.invalidate(`https://api.bentley.com/itwins/${iTwinId}`);
+   *
+   * // Forget every cached response
+   * client.invalidate();
+   * ```
+   */
+  public invalidate(match?: string | ((url: string) => boolean)): void {
+    this._responseCache?.invalidate(match);
+  }
+
+  /**
+   * Gets the number of requests waiting in the rate limit queue and in flight.
+   * Both are always 0 when the client has no rate limit.
+   *
+   * @returns A snapshot of the rate limit queue
+   */
+  public getQueueStats(): RequestQueueStats {
+    return (
+      this._requestLimiter?.stats ?? {
+        queued: 0,
+        queuedByPriority: { high: 0, normal: 0, low: 0 },
+        inFlight: 0,
+      }
+    );
+  }
+
+  /**
+   * Gets the circuit breaker state of a host.
+   * Always closed when the client has no circuit breaker.
+   *
+   * @param host - Host name, with its port when not the default one, e.g. "api.bentley.com"
+   * @returns The state of the circuit of the host
+   */
+  public getCircuitState(host: string): CircuitState {
+    return this._circuitBreaker?.getState(host) ?? "closed";
+  }
+
+
+  /**
+   * Iterates over a page of a listing and the following pages linked by `_links.next`, requesting one page at a time.
+   * Relative next links are resolved against the URL of the current page. Next links pointing at another origin
+   * must satisfy the trusted host policy, like redirects.
+   * Iteration stops after the last page, or when a next link was already visited.
+   *
+   * @param accessToken - The client access token, empty to use the client token provider
+   * @param firstPage - Requests the first page
+   * @param headers - Optional additional request headers, sent with every following page request
+   * @param options - Optional per-call options such as an abort signal or a timeout, applied to every following page request
+   * @param allowRedirects - Whether redirect responses to following page requests may be followed
+   * @returns Async iterator over the successful page responses
+   * @throws BentleyAPIResponseError when a page request fails, aborts included, or a next link is rejected
+   */
+  protected async *iterateLinkedPages<TPage>(
+    accessToken: AccessToken,
+    firstPage: () => Promise<BentleyAPIResponse<TPage>>,
+    headers?: Record<string, string>,
+    options?: RequestOptions,
+    allowRedirects: boolean = false
+  ): AsyncGenerator<BentleyAPIResponse<TPage> & { data: TPage }> {
+    let response = await firstPage();
+    const visitedUrls = new Set<string>(response.meta ? [response.meta.url] : []);
+    for (;;) {
+      if (response.error || response.data === undefined) {
+        throw new BentleyAPIResponseError(response);
+      }
+
+      const data: TPage = response.data;
+      yield { ...response, data };
+
+      const nextHref = (data as LinkedPage)._links?.next?.href;
+      if (!nextHref) {
+        return;
+      }
+      const nextUrl = this.resolveNextLink(nextHref, response.meta?.finalUrl);
+      if (visitedUrls.has(nextUrl)) {
+        return;
+      }
+      visitedUrls.add(nextUrl);
+      response = await this.sendGenericAPIRequest<TPage>(
+        accessToken,
+        "GET",
+        nextUrl,
+        undefined,
+        headers,
+        allowRedirects,
+        options
+      );
+    }
+  }
+
+  /**
+   * Resolves the next link of a page, checking links to another origin against the trusted host policy.
+   *
+   * @param href - The next link of the page
+   * @param pageUrl - The URL of the page, used to resolve relative links
+   * @returns The absolute URL of the next page
+   * @throws BentleyAPIResponseError with an InvalidRedirectUrl error when the link is malformed or not trusted
+   */
+  private resolveNextLink(href: string, pageUrl: string | undefined): string {
+    try {
+      const nextUrl = new URL(href, pageUrl).href;
+      if (!pageUrl || !this.isSameOrigin(nextUrl, pageUrl)) {
+        this.validateRedirectUrlSecurity(nextUrl);
+      }
+      return nextUrl;
+    } catch (error) {
+      throw new BentleyAPIResponseError(
+        this.createInvalidRedirectUrlResponse(
+          error instanceof RedirectPolicyViolation
+            ? error
+            : new RedirectPolicyViolation("MalformedUrl", `Invalid next link: ${href}`)
+        )
+      );
+    }
+  }
+
+  /**
+   * Sends a generic API request with type safety and response validation.
+   * Handles authentication, error responses, and data extraction automatically.
+   * Error responses follow APIM standards for consistent error handling.
+   * Failed attempts are retried according to the client retry policy.
+   * Requests and the final response go through the client middleware.
+   * Every response carries a `meta` block describing the request, and the final response headers when one was received.
+   * Without an access token, the token comes from the client token provider and a 401 response
+   * triggers one refresh-and-retry.
+   * When the client caches responses, fresh cached GET responses are returned without going
+   * through the request middleware, and successful mutations invalidate the responses they may change.
+   * When the client coalesces requests, concurrent identical GET requests share one call through the pipeline.
+   *
+   * @param accessToken - The client access token for authentication, empty to use the client token provider
+   * @param method - The HTTP method type (GET, POST, DELETE, etc.)
+   * @param url - The complete URL of the request endpoint
+   * @param data - Optional payload data for the request body
+   * @param headers - Optional additional request headers
+   * @param allowRedirects - Whether redirect responses may be followed
+   * @param options - Optional per-call options such as an abort signal or a timeout
+   * @returns Promise that resolves to the parsed API response with type safety
+   */
+  protected async sendGenericAPIRequest<TResponse = unknown, TData = unknown>(
+    accessToken: AccessToken,
+    method: Method,
+    url: string,
+    data?: TData,
+    headers?: Record<string, string>,
+    allowRedirects: boolean = false,
+    options?: RequestOptions
+  ): Promise<BentleyAPIResponse<TResponse>> {
+    if (this._coalesceRequests && method === "GET") {
+      return this.sendCoalescedRequest<TResponse>(accessToken, url, headers, allowRedirects, options);
+    }
+    return this.executeRequest<TResponse, TData>(
+      accessToken,
+      method,
+      url,
+      data,
+      headers,
+      allowRedirects,
+      options
+    );
+  }
+
+  /**
+   * Shares one GET request between every concurrent identical call (same token, URL and headers).
+   * Each call receives its own copy of the response and can be cancelled on its own;
+   * the shared request is aborted once every waiting call was cancelled.
+   *
+   * @param accessToken - The client access token, empty to use the client token provider
+   * @param url - The complete URL of the request endpoint
+   * @param headers - Optional additional request headers
+   * @param allowRedirects - Whether redirect responses may be followed
+   * @param options - Optional per-call options such as an abort signal or a timeout
+   * @returns Promise that resolves to a copy of the shared response
+   */
+  private async sendCoalescedRequest<TResponse>(
+    accessToken: AccessToken,
+    url: string,
+    headers: Record<string, string> | undefined,
+    allowRedirects: boolean,
+    options: RequestOptions | undefined
+  ): Promise<BentleyAPIResponse<TResponse>> {
+    const key = getCoalescingKey(
+      accessToken,
+      url,
+      { ...this._defaultHeaders, ...headers },
+      allowRedirects
+    );
+    let inFlight = this._inFlightRequests.get(key);
+    const coalesced = inFlight !== undefined;
+    if (!inFlight) {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        controller,
+        subscribers: 0,
+        promise: this.executeRequest<unknown, never>(
+          accessToken,
+          "GET",
+          url,
+          undefined,
+          headers,
+          allowRedirects,
+          { signal: controller.signal, priority: options?.priority }
+        ).finally(() => {
+          if (this._inFlightRequests.get(key) === created) {
+            this._inFlightRequests.delete(key);
+          }
+        }),
+      };
+      this._inFlightRequests.set(key, created);
+      inFlight = created;
+    }
+
+    inFlight.subscribers++;
+    const { context, dispose } = createRequestContext(options);
+    const startTime = Date.now();
+    try {
+      const response = await waitForResponse(inFlight.promise, context.signal);
+      if (response) {
+        const copy = copyResponse<TResponse>(response);
+        return coalesced && copy.meta ? { ...copy, meta: { ...copy.meta, coalesced: true } } : copy;
+      }
+
+      return await this.applyResponseMiddleware<TResponse>(
+        {
+          ...this.createFailureResponse(context, context.signal?.reason),
+          attempts: 0,
+          meta: {
+            url,
+            method: "GET",
+            durationMs: Date.now() - startTime,
+            attempts: 0,
+            finalUrl: url,
+            ...(coalesced ? { coalesced: true } : {}),
+          },
+        },
+        context
+      );
+    } finally {
+      inFlight.subscribers--;
+      if (inFlight.subscribers === 0) {
+        if (this._inFlightRequests.get(key) === inFlight) {
+          this._inFlightRequests.delete(key);
+        }
+        inFlight.controller.abort();
+      }
+      dispose();
+    }
+  }
+
+  /**
+   * Sends a request through the client pipeline: cache, authentication, middleware, retries and redirects.
+   *
+   * @param accessToken - The client access token for authentication, empty to use the client token provider
+   * @param method - The HTTP method type (GET, POST, DELETE, etc.)
+   * @param url - The complete URL of the request endpoint
+   * @param data - Optional payload data for the request body
+   * @param headers - Optional additional request headers
+   * @param allowRedirects - Whether redirect responses may be followed
+   * @param options - Optional per-call options such as an abort signal or a timeout
+   * @returns Promise that resolves to the parsed API response with metadata
+   */
+  private async executeRequest<TResponse, TData>(
+    accessToken: AccessToken,
+    method: Method,
+    url: string,
+    data: TData | undefined,
+    headers: Record<string, string> | undefined,
+    allowRedirects: boolean,
+    options: RequestOptions | undefined
+  ): Promise<BentleyAPIResponse<TResponse>> {
+    const { context, dispose } = createRequestContext(options);
+    const startTime = Date.now();
+    try {
+      const response = await this.sendCachedRequest<TResponse, TData>(
+        context,
+        accessToken,
+        method,
+        url,
+        data,
+        headers,
+        allowRedirects
+      );
+      const meta: ResponseMeta = {
+        url,
+        method,
+        durationMs: Date.now() - startTime,
+        attempts: context.attempts,
+        finalUrl: context.finalUrl ?? context.request?.url ?? url,
+        ...(context.cacheStatus ? { cache: context.cacheStatus } : {}),
+      };
+      return await this.applyResponseMiddleware<TResponse>(
+        {
+          ...response,
+          attempts: context.attempts,
+          ...(context.redirects.length > 0 ? { redirects: [...context.redirects] } : {}),
+          meta,
+        },
+        context
+      );
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Serves GET requests from the client response cache when possible, revalidating stale responses
+   * that carry an ETag with `If-None-Match`. Successful responses to other methods invalidate
+   * the cached responses of the modified resource and of its collection.
+   *
+   * @param context - State shared by every fetch made for this request
+   * @param accessToken - The client access token, empty to use the client token provider
+   * @param method - The HTTP method type (GET, POST, DELETE, etc.)
+   * @param url - The complete URL of the request endpoint
+   * @param data - Optional payload data for the request body
+   * @param headers - Optional additional request headers
+   * @param allowRedirects - Whether redirect responses may be followed
+   * @returns Promise that resolves to the cached or parsed API response
+   */
+  private async sendCachedRequest<TResponse, TData>(
+    context: RequestContext,
+    accessToken: AccessToken,
+    method: Method,
+    url: string,
+    data: TData | undefined,
+    headers: Record<string, string> | undefined,
+    allowRedirects: boolean
+  ): Promise<BentleyAPIResponse<TResponse>> {
+    const cache = this._responseCache;
+    if (!cache) {
+      return this.sendAuthenticatedRequest<TResponse, TData>(
+        context,
+        accessToken,
+        method,
+        url,
+        data,
+        headers,
+        allowRedirects
+      );
+    }
+
+    if (method !== "GET") {
+      const mutationResponse = await this.sendAuthenticatedRequest<TResponse, TData>(
+        context,
+        accessToken,
+        method,
+        url,
+        data,
+        headers,
+        allowRedirects
+      );
+      if (!mutationResponse.error) {
+        cache.invalidateModified(url);
+      }
+      return mutationResponse;
+    }
+
+    const key = cache.getKey(accessToken, url, { ...this._defaultHeaders, ...headers });
+    const cached = cache.get(key);
+    if (cached.response && cached.fresh) {
+      context.cacheStatus = "hit";
+      return cached.response as BentleyAPIResponse<TResponse>;
+    }
+
+    const response = await this.sendAuthenticatedRequest<TResponse, TData>(
+      context,
+      accessToken,
+      method,
+      url,
+      data,
+      cached.etag ? { ...headers, "if-none-match": cached.etag } : headers,
+      allowRedirects
+    );
+    if (response.status === 304 && cached.response) {
+      cache.refresh(key);
+      context.cacheStatus = "revalidated";
+      return cached.response as BentleyAPIResponse<TResponse>;
+    }
+    if (!response.error && response.status >= 200 && response.status < 300) {
+      cache.set(key, url, response);
+    }
+    return response;
+  }
+
+  /**
+   * Sends a request with the given access token, or with a token from the client token provider.
+   * A 401 response to a provided token triggers one retry with a refreshed token.
+   *
+   * @param context - State shared by every fetch made for this request
+   * @param accessToken - The client access token, empty to use the client token provider
+   * @param method - The HTTP method type (GET, POST, DELETE, etc.)
+   * @param url - The complete URL of the request endpoint
+   * @param data - Optional payload data for the request body
+   * @param headers - Optional additional request headers
+   * @param allowRedirects - Whether redirect responses may be followed
+   * @returns Promise that resolves to the parsed API response
+   */
+  private async sendAuthenticatedRequest<TResponse, TData>(
+    context: RequestContext,
+    accessToken: AccessToken,
+    method: Method,
+    url: string,
+    data: TData | undefined,
+    headers: Record<string, string> | undefined,
+    allowRedirects: boolean
+  ): Promise<BentleyAPIResponse<TResponse>> {
+    const accessTokenProvider = this._accessTokenProvider;
+    if (accessToken || !accessTokenProvider) {
+      return this.sendRequest<TResponse, TData>(
+        context,
+        accessToken,
+        method,
+        url,
+        data,
+        headers,
+        allowRedirects
+      );
+    }
+
+    // A provider failure is reported as a 401 as well, but only a 401 from the server warrants a refresh
+    let providerFailed = false;
+    const sendWithProvidedToken = async (
+      forceRefresh: boolean
+    ): Promise<BentleyAPIResponse<TResponse>> => {
+      let providedToken: AccessToken;
+      try {
+        providedToken = await accessTokenProvider({ forceRefresh });
+      } catch (error) {
+        providerFailed = true;
+        return this.createFailureResponse(
+          context,
+          new RequestFailure({
+            status: 401,
+            error: {
+              code: "AccessTokenUnavailable",
+              message: "The access token provider could not provide an access token.",
+              category: "internal",
+              cause: error,
+            },
+          })
+        );
+      }
+
+      return this.sendRequest<TResponse, TData>(
+        context,
+        providedToken,
+        method,
+        url,
+        data,
+        headers,
+        allowRedirects
+      );
+    };
+
+    const response = await sendWithProvidedToken(false);
+    if (response.status !== 401 || providerFailed) {
+      return response;
     }
-  }
 
+    context.attempts++;
+    return sendWithProvidedToken(true);
+  }
 
   /**
-   * Sends a generic API request with type safety and response validation.
-   * Handles authentication, error responses, and data extraction automatically.
-   * Error responses follow APIM standards for consistent error handling.
+   * Sends a request and follows redirects when allowed.
    *
+   * @param context - State shared by every fetch made for this request
    * @param accessToken - The client access token for authentication
    * @param method - The HTTP method type (GET, POST, DELETE, etc.)
    * @param url - The complete URL of the request endpoint
    * @param data - Optional payload data for the request body
    * @param headers - Optional additional request headers
-   * @returns Promise that resolves to the parsed API response with type safety
+   * @param allowRedirects - Whether redirect responses may be followed
+   * @returns Promise that resolves to the parsed API response
    */
-  protected async sendGenericAPIRequest<TResponse = unknown, TData = unknown>(
+  private async sendRequest<TResponse, TData>(
+    context: RequestContext,
     accessToken: AccessToken,
     method: Method,
     url: string,
-    data?: TData,
-    headers?: Record<string, string>,
-    allowRedirects: boolean = false
+    data: TData | undefined,
+    headers: Record<string, string> | undefined,
+    allowRedirects: boolean
   ): Promise<BentleyAPIResponse<TResponse>> {
+    context.redirectCount = 0;
+    context.redirects = [];
     try {
-      const requestOptions = this.createRequestOptions(
-        accessToken,
-        method,
-        url,
-        data,
-        headers
+      const preparedRequest = await this.applyRequestMiddleware(
+        this.createRequestOptions(accessToken, method, url, data, headers),
+        context
       );
+      if ("response" in preparedRequest) {
+        return preparedRequest.response as BentleyAPIResponse<TResponse>;
+      }
+      const requestOptions = preparedRequest;
 
-      const response = await fetch(requestOptions.url, {
-        method: requestOptions.method,
-        headers: requestOptions.headers,
-        body: requestOptions.body,
-        redirect: 'manual',
-      });
+      const response = await this.executeFetch(requestOptions, "manual", context);
 
       // Browser fetch returns an opaque redirect when redirect is set to manual
       if (response.type === "opaqueredirect") {
@@ -116,28 +1109,32 @@ export abstract class BaseBentleyAPIClient {
             error: {
               code: "RedirectsNotAllowed",
               message: "Redirects are not allowed for this request.",
+              category: "redirect-policy",
             },
           };
         }
 
         return await this.followRedirectWithFetchFollow<TResponse>(
-          requestOptions
+          requestOptions,
+          context
         );
       }
 
-      // Handle 302 redirects with auth header forwarding
-      if (response.status === 302) {
+      // Handle 301, 302, 303, 307 and 308 redirects
+      if (redirectStatusCodes.includes(response.status)) {
         if (!allowRedirects) {
           return {
             status: 403,
             error: {
               code: "RedirectsNotAllowed",
               message: "Redirects are not allowed for this request.",
+              category: "redirect-policy",
             },
           };
         }
         return await this.followRedirect<TResponse, TData>(
           response,
+          context,
           accessToken,
           method,
           data,
@@ -147,8 +1144,10 @@ export abstract class BaseBentleyAPIClient {
 
       // Process non-redirect response
       return await this.processResponse<TResponse>(response);
-    } catch {
-      return this.createInternalServerError();
+    } catch (error) {
+      return this.createFailureResponse(context, error);
+    } finally {
+      releaseRequestSlot(context);
     }
   }
 
@@ -157,46 +1156,46 @@ export abstract class BaseBentleyAPIClient {
    * Used for environments where manual redirect returns opaque responses.
    *
    * @param requestOptions - The original request options
+   * @param context - State shared by every fetch made for this request
    * @returns Promise that resolves to the final API response
    */
   private async followRedirectWithFetchFollow<TResponse = unknown>(
-    requestOptions: RequestConfig
+    requestOptions: RequestConfig,
+    context: RequestContext
   ): Promise<BentleyAPIResponse<TResponse>> {
     try {
-      const response = await fetch(requestOptions.url, {
-        method: requestOptions.method,
-        headers: requestOptions.headers,
-        body: requestOptions.body,
-        redirect: "follow",
-      });
+      const response = await this.executeFetch(requestOptions, "follow", context);
 
       if (response.redirected) {
+        // The browser hides intermediate hops, only the final location is known
+        context.redirects.push({
+          url: requestOptions.url,
+          status: 0,
+          method: requestOptions.method,
+          location: response.url,
+        });
         try {
           this.validateRedirectUrlSecurity(response.url);
         } catch (error) {
-          return {
-            status: 502,
-            error: {
-              code: "InvalidRedirectUrl",
-              message:
-                error instanceof Error ? error.message : "Invalid redirect URL",
-            },
-          };
+          return this.createInvalidRedirectUrlResponse(error);
         }
       }
 
       return await this.processResponse<TResponse>(response);
-    } catch {
-      return this.createInternalServerError();
+    } catch (error) {
+      return this.createFailureResponse(context, error);
     }
   }
 
   /**
-   * Handles 302 redirect responses by validating and following the redirect.
+   * Handles 301, 302, 303, 307 and 308 redirect responses by validating and following the redirect.
+   * 307 and 308 keep the method and body, 303 switches to GET, and 301 and 302 switch POST to GET.
+   * The Authorization header is sent to the origin of the initial request and to the credential hosts of the trusted host policy.
    *
-   * @param response - The 302 redirect response
+   * @param response - The redirect response
+   * @param context - State shared by every fetch made for this request
    * @param accessToken - The client access token
-   * @param method - The HTTP method
+   * @param method - The HTTP method of the request answered with the redirect
    * @param data - Optional request payload
    * @param headers - Optional request headers (will be forwarded to redirect)
    * @param redirectCount - Current redirect depth
@@ -204,43 +1203,60 @@ export abstract class BaseBentleyAPIClient {
    */
   private async followRedirect<TResponse = unknown, TData = unknown>(
     response: Response,
+    context: RequestContext,
     accessToken: AccessToken,
     method: Method,
     data: TData | undefined,
     headers: Record<string, string> | undefined,
     redirectCount: number = 0
   ): Promise<BentleyAPIResponse<TResponse>> {
+    const requestUrl = context.request?.url ?? response.url;
 
     // Verify redirect is valid and safe to follow
-    const verificationResult = this.checkRedirectValidity(response, redirectCount);
+    const verificationResult = this.checkRedirectValidity(response, redirectCount, requestUrl);
     if (verificationResult.error) {
       return verificationResult.error;
     }
     const redirectUrl = verificationResult.redirectUrl;
+    context.redirects.push({
+      url: requestUrl,
+      status: response.status,
+      method,
+      location: redirectUrl,
+    });
+
+    const redirectMethod = getRedirectMethod(response.status, method);
+    const redirectData = redirectMethod === method ? data : undefined;
 
     try {
-      const requestOptions = this.createRequestOptions(
+      context.redirectCount = redirectCount + 1;
+      const redirectRequest = this.createRequestOptions(
         accessToken,
-        method,
+        redirectMethod,
         redirectUrl,
-        data,
+        redirectData,
         headers
       );
+      // Federated Bentley API hosts keep the token, other trusted origins receive the redirect without it
+      if (!this.isSameOrigin(redirectUrl, context.redirects[0].url) && !this.isCredentialHost(new URL(redirectUrl))) {
+        delete redirectRequest.headers.authorization;
+      }
+      const preparedRequest = await this.applyRequestMiddleware(redirectRequest, context);
+      if ("response" in preparedRequest) {
+        return preparedRequest.response as BentleyAPIResponse<TResponse>;
+      }
+      const requestOptions = preparedRequest;
 
-      const redirectResponse = await fetch(requestOptions.url, {
-        method: requestOptions.method,
-        headers: requestOptions.headers,
-        body: requestOptions.body,
-        redirect: 'manual',
-      });
+      const redirectResponse = await this.executeFetch(requestOptions, "manual", context);
 
-      // Handle subsequent 302 redirects
-      if (redirectResponse.status === 302) {
+      // Handle subsequent redirects
+      if (redirectStatusCodes.includes(redirectResponse.status)) {
         return await this.followRedirect<TResponse, TData>(
           redirectResponse,
+          context,
           accessToken,
-          method,
-          data,
+          redirectMethod,
+          redirectData,
           headers,
           redirectCount + 1
         );
@@ -248,13 +1264,301 @@ export abstract class BaseBentleyAPIClient {
 
       // Process final response
       return await this.processResponse<TResponse>(redirectResponse);
+    } catch (error) {
+      return this.createFailureResponse(context, error);
+    }
+  }
+
+  /**
+   * Checks whether two URLs share the same origin (scheme, host and port).
+   *
+   * @param url - The URL to compare
+   * @param otherUrl - The URL to compare with, possibly empty when unknown
+   * @returns True if both URLs share the same origin, or if the other URL is unknown
+   */
+  private isSameOrigin(url: string, otherUrl: string | undefined): boolean {
+    if (!otherUrl) {
+      return true;
+    }
+
+    try {
+      return new URL(url).origin === new URL(otherUrl).origin;
     } catch {
-      return this.createInternalServerError();
+      return false;
+    }
+  }
+
+  /**
+   * Runs the request hooks of the client middleware, in registration order.
+   *
+   * @param request - The request configuration created for the current hop
+   * @param context - State shared by every fetch made for this request
+   * @returns The request configuration to send, or a synthetic response that skips sending it
+   */
+  private async applyRequestMiddleware(
+    request: RequestConfig,
+    context: RequestContext
+  ): Promise<RequestConfig | MiddlewareShortCircuit> {
+    let currentRequest = request;
+    context.request = currentRequest;
+    for (const middleware of this._middleware) {
+      if (!middleware.onRequest) {
+        continue;
+      }
+
+      const result = await middleware.onRequest(
+        currentRequest,
+        this.createMiddlewareContext(context)
+      );
+      if (result && "response" in result) {
+        return result;
+      }
+      if (result) {
+        currentRequest = result;
+        context.request = currentRequest;
+      }
+    }
+    return currentRequest;
+  }
+
+  /**
+   * Runs the response hooks of the client middleware, in reverse registration order.
+   * A failing hook turns the response into an internal error response.
+   *
+   * @param response - The final response of the request
+   * @param context - State shared by every fetch made for this request
+   * @returns The response transformed by the middleware
+   */
+  private async applyResponseMiddleware<TResponse>(
+    response: BentleyAPIResponse<TResponse>,
+    context: RequestContext
+  ): Promise<BentleyAPIResponse<TResponse>> {
+    let currentResponse: BentleyAPIResponse<unknown> = response;
+    try {
+      for (const middleware of [...this._middleware].reverse()) {
+        if (!middleware.onResponse) {
+          continue;
+        }
+
+        const result = await middleware.onResponse(
+          currentResponse,
+          this.createMiddlewareContext(context)
+        );
+        if (result) {
+          currentResponse = result;
+        }
+      }
+    } catch (error) {
+      return { ...this.createInternalServerError(error), attempts: context.attempts };
+    }
+    return currentResponse as BentleyAPIResponse<TResponse>;
+  }
+
+  /**
+   * Creates the context passed to middleware hooks.
+   *
+   * @param context - State shared by every fetch made for this request
+   * @returns The middleware view of the request state
+   */
+  private createMiddlewareContext(context: RequestContext): MiddlewareContext {
+    return {
+      redirectCount: context.redirectCount,
+      request: context.request,
+      signal: context.signal,
+      state: context.middlewareState,
+    };
+  }
+
+  /**
+   * Sends a prepared request through the configured fetch implementation.
+   * Retries failed attempts according to the client retry policy.
+   * Every attempt waits for a slot of the client rate limit first, held until the body of its response was read or discarded.
+   * Attempts to a host whose circuit is open fail fast, and the outcome of every other attempt is recorded by the circuit breaker.
+   *
+   * @param requestOptions - The request configuration to send
+   * @param redirect - The fetch redirect mode to use
+   * @param context - State shared by every fetch made for this request
+   * @returns Promise that resolves to the raw fetch response of the last attempt
+   * @throws The fetch error when aborted, a network failure when no response could be obtained,
+   * or a CircuitOpen failure when the circuit of the host is open
+   */
+  private async executeFetch(
+    requestOptions: RequestConfig,
+    redirect: RequestInit["redirect"],
+    context: RequestContext
+  ): Promise<Response> {
+    // Resolved per request and invoked unbound so browser fetch keeps its expected receiver
+    const fetchImplementation: FetchFunction = this._fetch ?? globalThis.fetch;
+    const retryPolicy = this.getRetryPolicy(requestOptions.method);
+    const maxAttempts = retryPolicy?.maxAttempts ?? 1;
+    context.attempts = Math.max(context.attempts, 1);
+
+    for (let attempt = 1; ; attempt++) {
+      if (attempt > 1) {
+        context.attempts++;
+      }
+      // The slot of the previous attempt or redirect hop is released before queueing again
+      releaseRequestSlot(context);
+      context.signal?.throwIfAborted();
+
+      let response: Response;
+      context.releaseSlot = await this._requestLimiter?.acquire(context.priority, context.signal);
+      // Acquired once the slot is granted, so that a half-open trial is not held while queued
+      let circuitPermit: CircuitPermit | undefined;
+      try {
+        circuitPermit = this.acquireCircuitPermit(requestOptions.url);
+      } catch (error) {
+        releaseRequestSlot(context);
+        throw error;
+      }
+      try {
+        response = await fetchImplementation(requestOptions.url, {
+          method: requestOptions.method,
+          headers: requestOptions.headers,
+          body: requestOptions.body,
+          redirect,
+          signal: context.signal,
+        });
+      } catch (error) {
+        releaseRequestSlot(context);
+        circuitPermit?.settle(context.signal?.aborted && !context.timedOut ? "ignored" : "failure");
+        if (context.signal?.aborted) {
+          throw error;
+        }
+        if (!retryPolicy?.retryOnNetworkError || attempt >= maxAttempts) {
+          throw new RequestFailure({
+            status: 503,
+            error: {
+              code: "NetworkError",
+              message: `The request to ${requestOptions.url} could not be sent: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+              category: "network",
+              cause: error,
+            },
+          });
+        }
+        await delay(this.getBackoffDelay(retryPolicy, attempt), context.signal);
+        continue;
+      }
+      circuitPermit?.settle(
+        this._circuitBreaker?.isFailureStatus(response.status) ? "failure" : "success"
+      );
+
+      context.finalUrl =
+        response.redirected && response.url ? response.url : requestOptions.url;
+
+      if (
+        !retryPolicy ||
+        attempt >= maxAttempts ||
+        !retryPolicy.retryableStatusCodes.includes(response.status)
+      ) {
+        return response;
+      }
+
+      const retryDelay = this.getRetryDelay(retryPolicy, attempt, response);
+      if (retryDelay === undefined) {
+        return response;
+      }
+
+      // Release the connection held by the discarded response, and its slot while waiting
+      await response.body?.cancel().catch(() => undefined);
+      releaseRequestSlot(context);
+      await delay(retryDelay, context.signal);
+    }
+  }
+
+  /**
+   * Asks the circuit breaker of the request host for permission to send an attempt.
+   *
+   * @param url - The URL of the attempt
+   * @returns A permit to settle with the attempt outcome, or undefined when the circuit breaker is disabled
+   * @throws A CircuitOpen failure when the circuit of the host rejects the attempt
+   */
+  private acquireCircuitPermit(url: string): CircuitPermit | undefined {
+    const circuitBreaker = this._circuitBreaker;
+    if (!circuitBreaker) {
+      return undefined;
+    }
+
+    const host = getHost(url);
+    const permit = circuitBreaker.acquire(host);
+    if (!permit) {
+      const retryAfterMs = circuitBreaker.getRetryAfterMs(host);
+      const error: CircuitOpenError = {
+        code: "CircuitOpen",
+        message: `Requests to ${host} are rejected after repeated failures, retry in ${retryAfterMs} ms.`,
+        category: "circuit-open",
+        host,
+        retryAfterMs,
+      };
+      throw new RequestFailure({ status: 503, error });
+    }
+    return permit;
+  }
+
+  /**
+   * Gets the retry policy that applies to a request method.
+   *
+   * @param method - The HTTP method of the request
+   * @returns The retry policy, or undefined if the request must not be retried
+   */
+  private getRetryPolicy(method: Method): Required<RetryPolicy> | undefined {
+    const retryPolicy = this._retryPolicy;
+    if (!retryPolicy) {
+      return undefined;
+    }
+
+    if (!retryPolicy.retryNonIdempotent && !idempotentMethods.includes(method)) {
+      return undefined;
+    }
+
+    return retryPolicy;
+  }
+
+  /**
+   * Computes the delay before retrying a response with a retryable status code.
+   * The Retry-After header takes precedence over the exponential backoff when honored.
+   *
+   * @param retryPolicy - The retry policy in effect
+   * @param attempt - The number of the attempt that just failed
+   * @param response - The response of the failed attempt
+   * @returns Delay in milliseconds, or undefined if the server asks to wait longer than the policy allows
+   */
+  private getRetryDelay(
+    retryPolicy: Required<RetryPolicy>,
+    attempt: number,
+    response: Response
+  ): number | undefined {
+    if (retryPolicy.respectRetryAfter) {
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      if (retryAfter !== undefined) {
+        return retryAfter <= retryPolicy.maxDelayMs ? retryAfter : undefined;
+      }
     }
+
+    return this.getBackoffDelay(retryPolicy, attempt);
+  }
+
+  /**
+   * Computes the exponential backoff delay for an attempt.
+   *
+   * @param retryPolicy - The retry policy in effect
+   * @param attempt - The number of the attempt that just failed
+   * @returns Delay in milliseconds, randomized when jitter is enabled
+   */
+  private getBackoffDelay(retryPolicy: Required<RetryPolicy>, attempt: number): number {
+    const backoff = Math.min(
+      retryPolicy.maxDelayMs,
+      retryPolicy.baseDelayMs * 2 ** (attempt - 1)
+    );
+    return retryPolicy.jitter ? Math.random() * backoff : backoff;
   }
 
   /**
    * Processes a non-redirect HTTP response.
+   * JSON bodies are parsed, text bodies are returned as strings and other bodies as a Blob.
+   * Error responses that are not APIM errors keep their status and carry their body in the error.
    *
    * @param response - The HTTP response to process
    * @returns Promise that resolves to a typed API response
@@ -262,17 +1566,31 @@ export abstract class BaseBentleyAPIClient {
   private async processResponse<TResponse>(
     response: Response
   ): Promise<BentleyAPIResponse<TResponse>> {
-    const responseData =
-      response.status !== 204 ? await response.json() : undefined;
+    const responseData = await this.readResponseBody(response);
+
+    const headers = getResponseHeaders(response.headers);
+
+    if (response.status === 304) {
+      return { status: response.status, headers };
+    }
+
+    if (response.status === 412) {
+      return {
+        status: response.status,
+        error: this.createPreconditionFailedError(responseData, headers.etag),
+        headers,
+      };
+    }
 
     if (!response.ok) {
       if (isErrorResponse(responseData)) {
         return {
           status: response.status,
-          error: responseData.error,
+          error: { ...responseData.error, category: "server" },
+          headers,
         };
       }
-      throw new Error("An error occurred while processing the request");
+      return { ...this.createUnexpectedErrorResponse(response, responseData), headers };
     }
 
     return {
@@ -280,22 +1598,170 @@ export abstract class BaseBentleyAPIClient {
       data:
         responseData === undefined || responseData === ""
           ? undefined
-          : (responseData as TResponse),
+          : (withTotalCount(responseData) as TResponse),
+      headers,
+      ...(headers.etag ? { etag: headers.etag } : {}),
+    };
+  }
+
+  /**
+   * Reads the body of a response according to its content type.
+   * Bodies without a content type are parsed as JSON when possible and returned as text otherwise.
+   *
+   * @param response - The HTTP response to read
+   * @returns The parsed JSON, the text, a Blob for binary content, or undefined for an empty body
+   * @throws A parse failure when a successful JSON response body is malformed
+   */
+  private async readResponseBody(response: Response): Promise<unknown> {
+    if (
+      response.status === 204 ||
+      response.status === 205 ||
+      response.headers.get("content-length") === "0"
+    ) {
+      return undefined;
+    }
+
+    const contentType = response.headers.get("content-type")?.toLowerCase() ?? "";
+    if (contentType && !isJsonContentType(contentType) && !isTextContentType(contentType)) {
+      const blob = await response.blob();
+      return blob.size > 0 ? blob : undefined;
+    }
+
+    const text = await response.text();
+    if (text.trim() === "") {
+      return undefined;
+    }
+    if (isTextContentType(contentType)) {
+      return text;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      // Untyped bodies and error bodies are kept as text, malformed successful JSON is a parse failure
+      if (!contentType || !response.ok) {
+        return text;
+      }
+      throw new RequestFailure(
+        {
+          status: 502,
+          error: {
+            code: "InvalidResponseBody",
+            message: `The ${response.status} response body could not be parsed as JSON.`,
+            category: "parse",
+            cause: error,
+          },
+        },
+        getResponseHeaders(response.headers)
+      );
+    }
+  }
+
+  /**
+   * Creates the error returned for a failed `If-Match` precondition.
+   * The server error message and details are kept when the body is an APIM error.
+   *
+   * @param responseData - The body of the 412 response
+   * @param currentETag - The ETag header of the 412 response, if any
+   * @returns A PreconditionFailed error carrying the current entity version
+   */
+  private createPreconditionFailedError(
+    responseData: unknown,
+    currentETag: string | undefined
+  ): PreconditionFailedError {
+    const serverError = isErrorResponse(responseData) ? responseData.error : undefined;
+    return {
+      ...serverError,
+      code: "PreconditionFailed",
+      message:
+        serverError?.message ??
+        "The entity was modified since the version given in the If-Match precondition.",
+      category: "server",
+      ...(currentETag ? { currentETag } : {}),
+    };
+  }
+
+  /**
+   * Creates the error response returned for an error status whose body is not a JSON APIM error.
+   *
+   * @param response - The error response
+   * @param body - The body read from the response, if any
+   * @returns An error response keeping the status code and the body of the response
+   */
+  private createUnexpectedErrorResponse(
+    response: Response,
+    body: unknown
+  ): BentleyAPIResponse<never> {
+    const statusText = response.statusText ? ` (${response.statusText})` : "";
+    return {
+      status: response.status,
+      error: {
+        code: "UnexpectedErrorResponse",
+        message: `The server returned an unexpected ${response.status}${statusText} response.`,
+        category: "unexpected-non-json",
+        body,
+      },
     };
   }
 
+  /**
+   * Creates the response returned when a request fails with an exception.
+   * Cancelled, timed-out, network and response handling failures get a dedicated error code.
+   *
+   * @param context - State of the failed request
+   * @param cause - The error that made the request fail
+   * @returns An error response describing the failure
+   */
+  private createFailureResponse(
+    context: RequestContext,
+    cause: unknown
+  ): BentleyAPIResponse<never> {
+    if (context.timedOut) {
+      return {
+        status: 408,
+        error: {
+          code: "RequestTimeout",
+          message: `The request did not complete within ${context.timeoutMs} ms.`,
+          category: "timeout",
+          cause,
+        },
+      };
+    }
+
+    if (context.signal?.aborted) {
+      return {
+        status: 499,
+        error: {
+          code: "RequestAborted",
+          message: "The request was aborted by the caller.",
+          category: "aborted",
+          cause,
+        },
+      };
+    }
+
+    if (cause instanceof RequestFailure) {
+      return cause.headers ? { ...cause.response, headers: cause.headers } : cause.response;
+    }
+
+    return this.createInternalServerError(cause);
+  }
+
   /**
    * Creates a generic internal server error response.
    *
+   * @param cause - The exception that was caught, if any
    * @returns A 500 error response for internal exceptions
    */
-  private createInternalServerError(): BentleyAPIResponse<never> {
+  private createInternalServerError(cause?: unknown): BentleyAPIResponse<never> {
     return {
       status: 500,
       error: {
         code: "InternalServerError",
         message:
           "An internal exception happened while calling iTwins Service",
+        category: "internal",
+        cause,
       },
     };
   }
@@ -308,13 +1774,15 @@ export abstract class BaseBentleyAPIClient {
    * 2. Ensures Location header is present
    * 3. Validates redirect URL for security
    *
-   * @param response - The 302 redirect response to verify
+   * @param response - The redirect response to verify
    * @param redirectCount - Current redirect depth
-   * @returns Verification result with either error or validated redirect URL
+   * @param requestUrl - URL of the request answered with the redirect, used to resolve a relative Location
+   * @returns Verification result with either error or validated absolute redirect URL
    */
   private checkRedirectValidity(
     response: Response,
-    redirectCount: number
+    redirectCount: number,
+    requestUrl?: string
   ): { error?: BentleyAPIResponse<never>; redirectUrl: string } {
     // Check redirect limit to prevent infinite loops
     if (redirectCount >= this._maxRedirects) {
@@ -324,6 +1792,7 @@ export abstract class BaseBentleyAPIClient {
           error: {
             code: "TooManyRedirects",
             message: `Maximum redirect limit (${this._maxRedirects}) exceeded. Possible redirect loop detected.`,
+            category: "redirect-policy",
           },
         },
         redirectUrl: "",
@@ -331,32 +1800,35 @@ export abstract class BaseBentleyAPIClient {
     }
 
     // Extract and validate redirect URL
-    const redirectUrl = response.headers.get('location');
-    if (!redirectUrl) {
+    const location = response.headers.get('location');
+    if (!location) {
       return {
         error: {
           status: 502,
           error: {
             code: "InvalidRedirect",
-            message: "302 redirect response missing Location header",
+            message: `${response.status} redirect response missing Location header`,
+            category: "redirect-policy",
           },
         },
         redirectUrl: "",
       };
     }
 
-    // Validate redirect URL for security
+    // Resolve a relative Location against the request URL, then validate it for security
+    let redirectUrl = location;
+    if (requestUrl) {
+      try {
+        redirectUrl = new URL(location, requestUrl).toString();
+      } catch {
+        // Left as is and reported as malformed by the security validation
+      }
+    }
     try {
       this.validateRedirectUrlSecurity(redirectUrl);
     } catch (error) {
       return {
-        error: {
-          status: 502,
-          error: {
-            code: "InvalidRedirectUrl",
-            message: error instanceof Error ? error.message : "Invalid redirect URL",
-          },
-        },
+        error: this.createInvalidRedirectUrlResponse(error),
         redirectUrl: "",
       };
     }
@@ -366,15 +1838,41 @@ export abstract class BaseBentleyAPIClient {
   }
 
   /**
-   * Validates that a redirect URL is secure and targets a trusted APIM Bentley domain.
+   * Creates the error response returned when a redirect URL violates the trusted host policy.
+   * The violated rule is reported as the code of the single error detail.
+   *
+   * @param error - The error thrown by the redirect URL validation
+   * @returns A 502 error response describing the violation
+   */
+  private createInvalidRedirectUrlResponse(error: unknown): BentleyAPIResponse<never> {
+    const message = error instanceof Error ? error.message : "Invalid redirect URL";
+    return {
+      status: 502,
+      error: {
+        code: "InvalidRedirectUrl",
+        message,
+        details:
+          error instanceof RedirectPolicyViolation
+            ? [{ code: error.rule, message }]
+            : undefined,
+        category: "redirect-policy",
+        cause: error,
+      },
+    };
+  }
+
+  /**
+   * Validates that a redirect URL is secure and targets a trusted host.
    *
-   * This method enforces security requirements for following HTTP redirects:
-   * - URL must use HTTPS protocol (not HTTP)
-   * - Domain must be a Bentley-owned domain (*api.bentley.com)
+   * This method enforces the client trusted host policy for following HTTP redirects:
+   * - URL must use HTTPS protocol, or HTTP towards localhost when the policy allows it
+   * - Host must be a trusted host, end with a trusted host suffix, or be accepted by the policy predicate
+   *
+   * By default only api.bentley.com and its prefixed environments (e.g. qa-api.bentley.com) are trusted.
    *
    * @param url - The redirect URL to validate
    * @returns True if the URL is valid and safe to follow
-   * @throws Error if the URL is invalid, uses HTTP, or targets an untrusted domain
+   * @throws RedirectPolicyViolation naming the violated rule if the URL is malformed, uses HTTP, or targets an untrusted host
    *
    * @remarks
    * This validation is critical for security when following 302 redirects in federated
@@ -391,43 +1889,81 @@ export abstract class BaseBentleyAPIClient {
    * ```
    */
   private validateRedirectUrlSecurity(url: string): boolean {
+    const policy = this._trustedHostPolicy;
     let parsedUrl: URL;
 
     try {
       parsedUrl = new URL(url);
     } catch {
-      throw new Error(`Invalid redirect URL: malformed URL "${url}"`);
-    }
-
-    // Require HTTPS protocol for security
-    if (parsedUrl.protocol !== "https:") {
-      throw new Error(
-        `Invalid redirect URL: HTTPS required, but URL uses "${parsedUrl.protocol}" protocol. URL: ${url}`
+      throw new RedirectPolicyViolation(
+        "MalformedUrl",
+        `Invalid redirect URL: malformed URL "${url}"`
       );
     }
 
-    // Validate domain is a Bentley-owned domain (specific whitelist)
     const hostname = parsedUrl.hostname.toLowerCase();
-    const allowedDomains = [
-      "api.bentley.com",
-    ];
 
-    const isBentleyDomain = allowedDomains.some(domain =>
-      hostname === domain || hostname.endsWith(`-${domain}`)
-    );
+    // Require HTTPS protocol for security, plain HTTP is only allowed towards localhost
+    const isAllowedHttp =
+      parsedUrl.protocol === "http:" &&
+      policy.allowHttpLocalhost &&
+      localhostNames.includes(hostname);
+    if (parsedUrl.protocol !== "https:" && !isAllowedHttp) {
+      throw new RedirectPolicyViolation(
+        "HttpsRequired",
+        `Invalid redirect URL: HTTPS required, but URL uses "${parsedUrl.protocol}" protocol. URL: ${url}`
+      );
+    }
 
-    if (!isBentleyDomain) {
-      throw new Error(
-        `Invalid redirect URL: domain "${hostname}" is not a trusted Bentley domain. Only api.bentley.com and its subdomains are allowed.`
+    if (!this.isTrustedHost(parsedUrl)) {
+      const predicateNote = policy.isTrusted ? " The custom trust predicate rejected it." : "";
+      throw new RedirectPolicyViolation(
+        "UntrustedHost",
+        `Invalid redirect URL: domain "${hostname}" is not a trusted Bentley domain. Trusted hosts: ${
+          policy.hosts.join(", ") || "none"
+        }. Trusted host suffixes: ${policy.hostSuffixes.join(", ") || "none"}.${predicateNote}`
       );
     }
 
     return true;
   }
 
+  /**
+   * Checks a URL host against the trusted hosts, then the trusted suffixes, then the custom predicate of the policy.
+   *
+   * @param url - The parsed URL to check
+   * @returns True if the trusted host policy accepts the host
+   */
+  private isTrustedHost(url: URL): boolean {
+    const policy = this._trustedHostPolicy;
+    const hostname = url.hostname.toLowerCase();
+    return (
+      policy.hosts.includes(hostname) ||
+      policy.hostSuffixes.some((suffix) => hostname.endsWith(suffix) && hostname !== suffix) ||
+      (policy.isTrusted?.(url) ?? false)
+    );
+  }
+
+  /**
+   * Checks whether a redirect to another origin may keep the Authorization header,
+   * matching the URL host against the credential hosts, then the credential host suffixes of the policy.
+   *
+   * @param url - The parsed redirect URL, already accepted by the trusted host policy
+   * @returns True if the host may receive the access token
+   */
+  private isCredentialHost(url: URL): boolean {
+    const policy = this._trustedHostPolicy;
+    const hostname = url.hostname.toLowerCase();
+    return (
+      policy.credentialHosts.includes(hostname) ||
+      policy.credentialHostSuffixes.some((suffix) => hostname.endsWith(suffix) && hostname !== suffix)
+    );
+  }
+
   /**
    * Creates request configuration options with authentication headers.
    * Validates required parameters and sets up proper content type for JSON requests.
+   * Client default headers are applied first and can be overridden by the request headers.
    *
    * @param accessTokenString - The client access token string for authorization
    * @param method - The HTTP method type (GET, POST, DELETE, etc.)
@@ -457,16 +1993,17 @@ export abstract class BaseBentleyAPIClient {
     } else {
       body = data;
     }
+    const requestHeaders = { ...this._defaultHeaders, ...headers };
     return {
       method,
       url,
       body,
       headers: {
-        ...headers,
+        ...requestHeaders,
         authorization: accessTokenString,
         "content-type":
-          headers.contentType || headers["content-type"]
-            ? headers.contentType || headers["content-type"]
+          requestHeaders.contentType || requestHeaders["content-type"]
+            ? requestHeaders.contentType || requestHeaders["content-type"]
             : "application/json",
       },
     };
@@ -533,7 +2070,7 @@ export abstract class BaseBentleyAPIClient {
       if (mappedValue === "") continue;
       const queryArgValue = queryArg[paramKey];
       if (queryArgValue !== undefined && queryArgValue !== null) {
-        const stringValue = String(queryArgValue);
+        const stringValue = Array.isArray(queryArgValue) ? queryArgValue.join(",") : String(queryArgValue);
         params.push(`${mappedValue}=${encodeURIComponent(stringValue)}`);
       }
     }
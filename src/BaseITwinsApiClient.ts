@@ -4,15 +4,26 @@
  *--------------------------------------------------------------------------------------------*/
 import type { AccessToken } from "@itwin/core-bentley";
 import { BaseBentleyAPIClient } from "./BaseBentleyAPIClient";
+import type { ITwinsClientOptions } from "./types/ClientOptions";
 import type {
+  AllPagesResponse,
+  BatchRequestOptions,
   BentleyAPIResponse,
+  ConditionalRequestOptions,
+  ODataListingQueryParams,
   ODataQueryParams,
+  PaginationOptions,
+  RequestOptions,
   ResultMode,
+  WithTotalCount,
 } from "./types/CommonApiTypes";
 import type {
   ItwinCreate,
+  ITwinMinimal,
   ITwinMinimalResponse,
+  ITwinRepresentation,
   ITwinRepresentationResponse,
+  ITwinsByIdsResponse,
   ItwinUpdate,
   MultiITwinMinimalResponse,
   MultiITwinRepresentationResponse,
@@ -22,8 +33,14 @@ import type {
   ITwinExportRequestInfo,
   ITwinExportSingleResponse,
 } from "./types/ITwinExport";
+import type { HierarchyOptions, ITwinAncestorsResponse, ITwinHierarchy } from "./types/ITwinHierarchy";
 import type { ITwinImageResponse } from "./types/ITwinImage";
-import type { ITwinsGetQueryArg, ITwinsQueryArg } from "./types/ITwinsQueryArgs";
+import type {
+  ITwinsGetQueryArg,
+  ITwinsQueryArg,
+  ITwinsQueryItem,
+  ITwinsQueryResponse,
+} from "./types/ITwinsQueryArgs";
 import type {
   GetMultiRepositoryResourceMinimalResponse,
   GetMultiRepositoryResourceRepresentationResponse,
@@ -87,12 +104,14 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
    * @readonly
    */
   // eslint-disable-next-line @typescript-eslint/naming-convention
-  protected static readonly ODataParamMapping: ParameterMapping<
-    Pick<ODataQueryParams, "search" | "skip" | "top">
-  > = {
+  protected static readonly ODataParamMapping: ParameterMapping<ODataListingQueryParams> = {
     top: "$top",
     skip: "$skip",
     search: "$search",
+    count: "$count",
+    expand: "$expand",
+    apply: "$apply",
+    format: "$format",
   } as const;
 
   /**
@@ -109,9 +128,7 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
    * @readonly
    */
   // eslint-disable-next-line @typescript-eslint/naming-convention
-  protected static readonly ITwinsGetQueryParamMapping: ParameterMapping<
-    ITwinsQueryArg & Pick<ODataQueryParams, "filter" | "orderby" | "select">
-  > = {
+  protected static readonly ITwinsGetQueryParamMapping: ParameterMapping<ITwinsGetQueryArg> = {
     subClass: "subClass",
     type: "type",
     status: "status",
@@ -129,6 +146,10 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
     filter: "$filter",
     orderby: "$orderby",
     select: "$select",
+    count: "$count",
+    expand: "$expand",
+    apply: "$apply",
+    format: "$format",
   } as const;
 
   /**
@@ -160,7 +181,8 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
 
   /**
    * Creates a new BaseClient instance for iTwins API operations
-   * @param url - Optional custom base URL, defaults to production iTwins API URL
+   * @param urlOrOptions - Optional custom base URL (defaults to production iTwins API URL), or client options
+   * @param maxRedirects - Optional custom max redirects, used only with a positional URL
    *
    * @example
    * ```typescript
@@ -169,12 +191,24 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
    *
    * // Use custom URL for development/testing
    * const client = new ITwinsAccessClient("https://dev-api.bentley.com/itwins");
+   *
+   * // Use an options object
+   * const client = new ITwinsAccessClient({
+   *   baseUrl: "https://dev-api.bentley.com/itwins",
+   *   maxRedirects: 10,
+   *   fetch: instrumentedFetch,
+   *   defaultHeaders: { "x-correlation-id": correlationId },
+   * });
    * ```
    */
-  public constructor(url?: string, maxRedirects?: number) {
-    super(maxRedirects);
-    if (url !== undefined) {
-      this._baseUrl = url;
+  public constructor(urlOrOptions?: string | ITwinsClientOptions, maxRedirects?: number) {
+    const options: ITwinsClientOptions =
+      typeof urlOrOptions === "object"
+        ? urlOrOptions
+        : { baseUrl: urlOrOptions, maxRedirects };
+    super(options);
+    if (options.baseUrl !== undefined) {
+      this._baseUrl = options.baseUrl;
     } else {
       const urlPrefix = globalThis.IMJS_URL_PREFIX;
       if (urlPrefix) {
@@ -188,40 +222,64 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
   /** Create a new iTwin export */
   public abstract createExport(
     accessToken: AccessToken,
-    args: ITwinExportRequestInfo
+    args: ITwinExportRequestInfo,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ITwinExportSingleResponse>>;
 
   /** Get a iTwin export */
   public abstract getExport(
     accessToken: AccessToken,
-    id: string
+    id: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ITwinExportSingleResponse>>;
 
   /** Get a list of iTwin exports for user */
   public abstract getExports(
-    accessToken: AccessToken
+    accessToken: AccessToken,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ITwinExportMultiResponse>>;
 
   /** Get favorites iTwins accessible to the user */
   public abstract getFavoritesITwins<T extends ITwinsQueryArg = ITwinsQueryArg>(
     accessToken: AccessToken,
-    arg?: T
+    arg?: T,
+    options?: RequestOptions
   ): Promise<
     BentleyAPIResponse<T["resultMode"] extends "representation"
       ? MultiITwinRepresentationResponse
       : MultiITwinMinimalResponse>
   >;
 
+  /** Iterate over the favorite iTwins of every page */
+  public abstract iterateFavoritesITwins<T extends ITwinsQueryArg = ITwinsQueryArg>(
+    accessToken: AccessToken,
+    arg?: T,
+    options?: PaginationOptions
+  ): AsyncIterable<T["resultMode"] extends "representation" ? ITwinRepresentation : ITwinMinimal>;
+
+  /** Get the favorite iTwins of every page */
+  public abstract getAllFavoritesITwins<T extends ITwinsQueryArg = ITwinsQueryArg>(
+    accessToken: AccessToken,
+    arg?: T,
+    options?: PaginationOptions
+  ): Promise<
+    BentleyAPIResponse<AllPagesResponse<T["resultMode"] extends "representation"
+      ? MultiITwinRepresentationResponse
+      : MultiITwinMinimalResponse>>
+  >;
+
   /** Add iTwin to favorites */
   public abstract addITwinToFavorites(
     accessToken: AccessToken,
-    iTwinId?: string
+    iTwinId?: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<undefined>>;
 
   /** Remove iTwin from favorites */
   public abstract removeITwinFromFavorites(
     accessToken: AccessToken,
-    iTwinId?: string
+    iTwinId?: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<undefined>>;
 
   /** Adds image to iTwin  */
@@ -229,25 +287,46 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
     accessToken: AccessToken,
     iTwinId: string,
     imageBlob: Blob,
-    contentType: "image/png" | "image/jpeg"
+    contentType: "image/png" | "image/jpeg",
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ITwinImageResponse>>;
 
   /** Add the specified iTwin to the user's recently used list */
   public abstract addITwinToMyRecents(
     accessToken: AccessToken,
-    iTwinId: string
+    iTwinId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<undefined>>;
 
   /** Get recently used iTwins for the current user, maximum 25 items ordered by most recent first */
   public abstract getRecentUsedITwins<T extends ITwinsQueryArg = ITwinsQueryArg>(
     accessToken: AccessToken,
-    arg?: T
+    arg?: T,
+    options?: RequestOptions
   ): Promise<
     BentleyAPIResponse<T["resultMode"] extends "representation"
       ? MultiITwinRepresentationResponse
       : MultiITwinMinimalResponse>
   >;
 
+  /** Iterate over the recently used iTwins of every page */
+  public abstract iterateRecentUsedITwins<T extends ITwinsQueryArg = ITwinsQueryArg>(
+    accessToken: AccessToken,
+    arg?: T,
+    options?: PaginationOptions
+  ): AsyncIterable<T["resultMode"] extends "representation" ? ITwinRepresentation : ITwinMinimal>;
+
+  /** Get the recently used iTwins of every page */
+  public abstract getAllRecentUsedITwins<T extends ITwinsQueryArg = ITwinsQueryArg>(
+    accessToken: AccessToken,
+    arg?: T,
+    options?: PaginationOptions
+  ): Promise<
+    BentleyAPIResponse<AllPagesResponse<T["resultMode"] extends "representation"
+      ? MultiITwinRepresentationResponse
+      : MultiITwinMinimalResponse>>
+  >;
+
   /** Get all global repositories with optional filtering by repository class and subClass identifiers.
    * @beta
    */
@@ -255,7 +334,8 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
     accessToken: AccessToken,
     arg?:
       | { class: Repository["class"] }
-      | { class: Repository["class"]; subClass: Repository["subClass"] }
+      | { class: Repository["class"]; subClass: Repository["subClass"] },
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<MultiRepositoriesResponse>>;
 
   /** Get a specific global repository by ID.
@@ -263,7 +343,8 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
    */
   public abstract getGlobalRepository(
     accessToken: AccessToken,
-    repositoryId: string
+    repositoryId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<SingleRepositoryResponse>>;
 
   /** Get a global repository resource by ID.
@@ -273,7 +354,8 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
     accessToken: AccessToken,
     repositoryId: string,
     resourceId: string,
-    resultMode?: T
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<
     BentleyAPIResponse<T extends "representation"
       ? GetRepositoryResourceRepresentationResponse
@@ -283,15 +365,45 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
   /** Get global repository resources with optional filtering and pagination.
    * @beta
    */
-  public abstract getGlobalRepositoryResources<T extends ResultMode = "minimal">(
+  public abstract getGlobalRepositoryResources<
+    T extends ResultMode = "minimal",
+    A extends ODataListingQueryParams = ODataListingQueryParams
+  >(
     accessToken: AccessToken,
     repositoryId: string,
-    args?: Pick<ODataQueryParams, "search" | "skip" | "top">,
-    resultMode?: T
+    args?: A,
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<
-    BentleyAPIResponse<T extends "representation"
+    BentleyAPIResponse<WithTotalCount<T extends "representation"
+      ? GetMultiRepositoryResourceRepresentationResponse
+      : GetMultiRepositoryResourceMinimalResponse, A>>
+  >;
+
+  /** Iterate over the global repository resources of every page */
+  public abstract iterateGlobalRepositoryResources<T extends ResultMode = "minimal">(
+    accessToken: AccessToken,
+    repositoryId: string,
+    args?: ODataListingQueryParams,
+    resultMode?: T,
+    options?: PaginationOptions
+  ): AsyncIterable<
+    T extends "representation"
+      ? GetMultiRepositoryResourceRepresentationResponse["resources"][number]
+      : GetMultiRepositoryResourceMinimalResponse["resources"][number]
+  >;
+
+  /** Get the global repository resources of every page */
+  public abstract getAllGlobalRepositoryResources<T extends ResultMode = "minimal">(
+    accessToken: AccessToken,
+    repositoryId: string,
+    args?: ODataListingQueryParams,
+    resultMode?: T,
+    options?: PaginationOptions
+  ): Promise<
+    BentleyAPIResponse<AllPagesResponse<T extends "representation"
       ? GetMultiRepositoryResourceRepresentationResponse
-      : GetMultiRepositoryResourceMinimalResponse>
+      : GetMultiRepositoryResourceMinimalResponse>>
   >;
 
   /** Get graphics metadata for a global repository resource.
@@ -300,21 +412,24 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
   public abstract getGlobalResourceGraphics(
     accessToken: AccessToken,
     repositoryId: string,
-    resourceId: string
+    resourceId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ResourceGraphicsResponse>>;
 
   /** Create a new repository for the specified iTwin */
   public abstract createRepository(
     accessToken: AccessToken,
     iTwinId: string,
-    repository: NewRepositoryConfig
+    repository: NewRepositoryConfig,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<SingleRepositoryResponse>>;
 
   /** Delete the specified repository from an iTwin */
   public abstract deleteRepository(
     accessToken: AccessToken,
     iTwinId: string,
-    repositoryId: string
+    repositoryId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<undefined>>;
 
   /** Get all repositories for an iTwin with optional filtering by repository class and subClass identifiers. If subClass is specified, class is also required. */
@@ -323,14 +438,16 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
     iTwinId: string,
     arg?:
       | { class: Repository["class"] }
-      | { class: Repository["class"]; subClass: Repository["subClass"] }
+      | { class: Repository["class"]; subClass: Repository["subClass"] },
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<MultiRepositoriesResponse>>;
 
   /** Get a specific repository by ID from an iTwin */
   public abstract getRepository(
     accessToken: AccessToken,
     iTwinId: string,
-    repositoryId: string
+    repositoryId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<SingleRepositoryResponse>>;
 
   /** Update a specific repository by ID from an iTwin */
@@ -338,7 +455,8 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
     accessToken: AccessToken,
     iTwinId: string,
     repositoryId: string,
-    repository: Partial<Omit<Repository, "id" | "class" | "subClass" | "capabilities">>
+    repository: Partial<Omit<Repository, "id" | "class" | "subClass" | "capabilities">>,
+    options?: ConditionalRequestOptions
   ): Promise<BentleyAPIResponse<SingleRepositoryResponse>>;
 
   /** Create a repository resource for a repository that exposes a resources collection. */
@@ -346,7 +464,8 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
     accessToken: AccessToken,
     iTwinId: string,
     repositoryId: string,
-    repositoryResource: Pick<Repository, "id" | "displayName">
+    repositoryResource: Pick<Repository, "id" | "displayName">,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<PostRepositoryResourceResponse>>;
 
   /** Delete a repository resource from a repository */
@@ -354,7 +473,8 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
     accessToken: AccessToken,
     iTwinId: string,
     repositoryId: string,
-    resourceId: string
+    resourceId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<undefined>>;
 
   /** Get a repository resource for a repository */
@@ -363,7 +483,8 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
     iTwinId: string,
     repositoryId: string,
     resourceId: string,
-    resultMode?: T
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<
     BentleyAPIResponse<T extends "representation"
       ? GetRepositoryResourceRepresentationResponse
@@ -371,35 +492,98 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
   >;
 
   /** Get repository resources for a repository */
-  public abstract getRepositoryResources<T extends ResultMode = "minimal">(
+  public abstract getRepositoryResources<
+    T extends ResultMode = "minimal",
+    A extends ODataListingQueryParams = ODataListingQueryParams
+  >(
     accessToken: AccessToken,
     iTwinId: string,
     repositoryId: string,
-    args?: Pick<ODataQueryParams, "search" | "skip" | "top">,
-    resultMode?: T
+    args?: A,
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<
-    BentleyAPIResponse<T extends "representation"
+    BentleyAPIResponse<WithTotalCount<T extends "representation"
       ? GetMultiRepositoryResourceRepresentationResponse
-      : GetMultiRepositoryResourceMinimalResponse>
+      : GetMultiRepositoryResourceMinimalResponse, A>>
+  >;
+
+  /** Iterate over the repository resources of every page */
+  public abstract iterateRepositoryResources<T extends ResultMode = "minimal">(
+    accessToken: AccessToken,
+    iTwinId: string,
+    repositoryId: string,
+    args?: ODataListingQueryParams,
+    resultMode?: T,
+    options?: PaginationOptions
+  ): AsyncIterable<
+    T extends "representation"
+      ? GetMultiRepositoryResourceRepresentationResponse["resources"][number]
+      : GetMultiRepositoryResourceMinimalResponse["resources"][number]
+  >;
+
+  /** Get the repository resources of every page */
+  public abstract getAllRepositoryResources<T extends ResultMode = "minimal">(
+    accessToken: AccessToken,
+    iTwinId: string,
+    repositoryId: string,
+    args?: ODataListingQueryParams,
+    resultMode?: T,
+    options?: PaginationOptions
+  ): Promise<
+    BentleyAPIResponse<AllPagesResponse<T extends "representation"
+      ? GetMultiRepositoryResourceRepresentationResponse
+      : GetMultiRepositoryResourceMinimalResponse>>
   >;
 
   /** Get a list of resources from a repository using a capability URI */
-  public abstract getRepositoryResourcesByUri<T extends ResultMode = "minimal">(
+  public abstract getRepositoryResourcesByUri<
+    T extends ResultMode = "minimal",
+    A extends ODataListingQueryParams = ODataListingQueryParams
+  >(
     accessToken: AccessToken,
     uri: string,
-    args?: Pick<ODataQueryParams, "search" | "skip" | "top">,
-    resultMode?: T
+    args?: A,
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<
-    BentleyAPIResponse<T extends "representation"
+    BentleyAPIResponse<WithTotalCount<T extends "representation"
       ? GetMultiRepositoryResourceRepresentationResponse
-      : GetMultiRepositoryResourceMinimalResponse>
+      : GetMultiRepositoryResourceMinimalResponse, A>>
+  >;
+
+  /** Iterate over the repository resources of a capability URI of every page */
+  public abstract iterateRepositoryResourcesByUri<T extends ResultMode = "minimal">(
+    accessToken: AccessToken,
+    uri: string,
+    args?: ODataListingQueryParams,
+    resultMode?: T,
+    options?: PaginationOptions
+  ): AsyncIterable<
+    T extends "representation"
+      ? GetMultiRepositoryResourceRepresentationResponse["resources"][number]
+      : GetMultiRepositoryResourceMinimalResponse["resources"][number]
+  >;
+
+  /** Get the repository resources of a capability URI of every page */
+  public abstract getAllRepositoryResourcesByUri<T extends ResultMode = "minimal">(
+    accessToken: AccessToken,
+    uri: string,
+    args?: ODataListingQueryParams,
+    resultMode?: T,
+    options?: PaginationOptions
+  ): Promise<
+    BentleyAPIResponse<AllPagesResponse<T extends "representation"
+      ? GetMultiRepositoryResourceRepresentationResponse
+      : GetMultiRepositoryResourceMinimalResponse>>
   >;
 
   /** Get a specific resource from a repository using a capability URI */
   public abstract getRepositoryResourceByUri<T extends ResultMode = "minimal">(
     accessToken: AccessToken,
     uri: string,
-    resultMode?: T
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<
     BentleyAPIResponse<T extends "representation"
       ? GetRepositoryResourceRepresentationResponse
@@ -411,62 +595,116 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
     accessToken: AccessToken,
     iTwinId: string,
     repositoryId: string,
-    resourceId: string
+    resourceId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ResourceGraphicsResponse>>;
 
   /** Get graphics metadata for a repository resource using a capability URI */
   public abstract getResourceGraphicsByUri(
     accessToken: AccessToken,
-    uri: string
+    uri: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ResourceGraphicsResponse>>;
 
   /** Get image for iTwin  */
   public abstract getITwinImage(
     accessToken: AccessToken,
-    iTwinId: string
+    iTwinId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ITwinImageResponse>>;
 
   /** Deletes image from iTwin  */
   public abstract deleteITwinImage(
     accessToken: AccessToken,
-    iTwinId: string
+    iTwinId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<undefined>>;
 
   /** Get iTwins */
-  public abstract getITwins<T extends ITwinsGetQueryArg = ITwinsGetQueryArg>(
+  public abstract getITwins<const T extends ITwinsGetQueryArg = ITwinsGetQueryArg>(
     accessToken: AccessToken,
-    arg?: T
+    arg?: T,
+    options?: RequestOptions
+  ): Promise<BentleyAPIResponse<ITwinsQueryResponse<T>>>;
+
+  /** Iterate over the iTwins of every page of a listing */
+  public abstract iterateITwins<const T extends ITwinsGetQueryArg = ITwinsGetQueryArg>(
+    accessToken: AccessToken,
+    arg?: T,
+    options?: PaginationOptions
+  ): AsyncIterable<ITwinsQueryItem<T>>;
+
+  /** Iterate over the pages of an iTwins listing */
+  public abstract iteratePages<const T extends ITwinsGetQueryArg = ITwinsGetQueryArg>(
+    accessToken: AccessToken,
+    arg?: T,
+    options?: PaginationOptions
+  ): AsyncIterable<BentleyAPIResponse<ITwinsQueryResponse<T>>>;
+
+  /** Get the iTwins with the given IDs */
+  public abstract getITwinsByIds<T extends ResultMode = "minimal">(
+    accessToken: AccessToken,
+    ids: ReadonlyArray<string>,
+    resultMode?: T,
+    options?: BatchRequestOptions
   ): Promise<
-    BentleyAPIResponse<T["resultMode"] extends "representation"
-      ? MultiITwinRepresentationResponse
-      : MultiITwinMinimalResponse>
+    BentleyAPIResponse<ITwinsByIdsResponse<T extends "representation" ? ITwinRepresentation : ITwinMinimal>>
   >;
 
+  /** Get the children of an iTwin from every page */
+  public abstract getChildren(
+    accessToken: AccessToken,
+    iTwinId: string,
+    arg?: Omit<ITwinsQueryArg, "parentId" | "resultMode">,
+    options?: PaginationOptions
+  ): Promise<BentleyAPIResponse<AllPagesResponse<MultiITwinRepresentationResponse>>>;
+
+  /** Get the descendants of an iTwin, breadth-first */
+  public abstract getDescendants(
+    accessToken: AccessToken,
+    iTwinId: string,
+    options?: HierarchyOptions
+  ): Promise<BentleyAPIResponse<ITwinHierarchy>>;
+
+  /** Get the ancestors of an iTwin, the parent first */
+  public abstract getAncestors(
+    accessToken: AccessToken,
+    iTwinId: string,
+    options?: RequestOptions
+  ): Promise<BentleyAPIResponse<ITwinAncestorsResponse>>;
+
+  /** Arrange iTwins into a tree from their parent links */
+  public abstract buildHierarchyTree(iTwins: ReadonlyArray<ITwinRepresentation>): ITwinHierarchy;
+
   /** Delete the specified iTwin */
   public abstract deleteItwin(
     accessToken: AccessToken,
-    iTwinId: string
+    iTwinId: string,
+    options?: ConditionalRequestOptions
   ): Promise<BentleyAPIResponse<undefined>>;
 
   /** Get an ITwin */
   public abstract getITwin<T extends ResultMode = "minimal">(
     accessToken: AccessToken,
     iTwinId: string,
-    resultMode?: T
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<T extends "representation"
     ? ITwinRepresentationResponse
     : ITwinMinimalResponse>>;
 
   /** Get the primary account ITwin */
   public abstract getPrimaryAccount(
-    accessToken: AccessToken
+    accessToken: AccessToken,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ITwinMinimalResponse>>;
 
   /* Get the account for an iTwin */
   public abstract getITwinAccount<T extends ResultMode = "minimal">(
     accessToken: AccessToken,
     iTwinId: string,
-    resultMode?: T
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<T extends "representation"
     ? ITwinRepresentationResponse
     : ITwinMinimalResponse>>;
@@ -474,13 +712,15 @@ export abstract class BaseITwinsApiClient extends BaseBentleyAPIClient {
   /** Create a new iTwin */
   public abstract createITwin(
     accessToken: AccessToken,
-    iTwin: ItwinCreate
+    iTwin: ItwinCreate,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ITwinRepresentationResponse>>;
 
   /** Update the specified iTwin */
   public abstract updateItwin(
     accessToken: AccessToken,
     iTwinId: string,
-    iTwin: ItwinUpdate
+    iTwin: ItwinUpdate,
+    options?: ConditionalRequestOptions
   ): Promise<BentleyAPIResponse<ITwinRepresentationResponse>>;
 }
@@ -0,0 +1,217 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import type { CircuitBreakerOptions, CircuitState } from "./types/ClientOptions";
+
+/**
+ * Outcome of a request sent through a circuit.
+ * Ignored outcomes, such as requests cancelled by the caller, do not count towards the failure rate.
+ */
+export type CircuitOutcome = "success" | "failure" | "ignored";
+
+/**
+ * Permission to send one request to a host, to settle with the request outcome
+ */
+export interface CircuitPermit {
+  /** Records the outcome of the request, only the first call counts */
+  settle: (outcome: CircuitOutcome) => void;
+}
+
+/**
+ * Circuit state of a single host
+ */
+interface HostCircuit {
+  /** Current state */
+  state: CircuitState;
+  /** Outcomes of the latest requests while closed, true for failures */
+  outcomes: boolean[];
+  /** Time in milliseconds since epoch the circuit was last opened at */
+  openedAt: number;
+  /** Number of trial requests in flight while half-open */
+  trials: number;
+  /** Number of successful trial requests while half-open */
+  successes: number;
+}
+
+/**
+ * Per-host circuit breaker.
+ *
+ * A closed circuit lets every request through and opens once the failure rate over the latest
+ * `windowSize` requests reaches `failureRateThreshold`. An open circuit rejects every request
+ * until `cooldownMs` elapsed, then turns half-open and lets `halfOpenMaxRequests` trial requests through:
+ * the circuit closes when they all succeed and opens again as soon as one fails.
+ *
+ * @internal
+ */
+export class CircuitBreaker {
+  private readonly _circuits = new Map<string, HostCircuit>();
+  private readonly _options: Required<Omit<CircuitBreakerOptions, "onStateChange">> &
+    Pick<CircuitBreakerOptions, "onStateChange">;
+
+  /**
+   * Creates a circuit breaker
+   * @param options - Circuit breaker options provided by the caller
+   */
+  public constructor(options: CircuitBreakerOptions) {
+    this._options = {
+      failureRateThreshold: options.failureRateThreshold ?? 0.5,
+      minimumRequests: options.minimumRequests ?? 10,
+      windowSize: options.windowSize ?? 20,
+      cooldownMs: options.cooldownMs ?? 30000,
+      halfOpenMaxRequests: options.halfOpenMaxRequests ?? 1,
+      failureStatusCodes: options.failureStatusCodes ?? [408, 500, 502, 503, 504],
+      onStateChange: options.onStateChange,
+    };
+  }
+
+  /**
+   * Gets the circuit state of a host
+   * @param host - Host name, with its port when not the default one
+   * @returns The state of the circuit, closed for hosts never requested
+   */
+  public getState(host: string): CircuitState {
+    const circuit = this._circuits.get(host);
+    if (!circuit) {
+      return "closed";
+    }
+    this.updateCooldown(host, circuit);
+    return circuit.state;
+  }
+
+  /**
+   * Gets the time left before an open circuit lets a trial request through
+   * @param host - Host name, with its port when not the default one
+   * @returns The remaining cooldown in milliseconds, 0 when the circuit is not open
+   */
+  public getRetryAfterMs(host: string): number {
+    const circuit = this._circuits.get(host);
+    if (!circuit || this.getState(host) !== "open") {
+      return 0;
+    }
+    return Math.max(0, circuit.openedAt + this._options.cooldownMs - Date.now());
+  }
+
+  /**
+   * Whether a response status counts as a failure
+   * @param status - Status code of the response
+   * @returns True for the configured failure status codes
+   */
+  public isFailureStatus(status: number): boolean {
+    return this._options.failureStatusCodes.includes(status);
+  }
+
+  /**
+   * Asks permission to send a request to a host
+   * @param host - Host name, with its port when not the default one
+   * @returns A permit to settle with the request outcome, or undefined when the circuit rejects the request
+   */
+  public acquire(host: string): CircuitPermit | undefined {
+    let circuit = this._circuits.get(host);
+    if (!circuit) {
+      circuit = { state: "closed", outcomes: [], openedAt: 0, trials: 0, successes: 0 };
+      this._circuits.set(host, circuit);
+    }
+    this.updateCooldown(host, circuit);
+
+    if (circuit.state === "open") {
+      return undefined;
+    }
+
+    const isTrial = circuit.state === "half-open";
+    if (isTrial) {
+      if (circuit.trials + circuit.successes >= this._options.halfOpenMaxRequests) {
+        return undefined;
+      }
+      circuit.trials++;
+    }
+
+    const acquiredCircuit = circuit;
+    let settled = false;
+    return {
+      settle: (outcome) => {
+        if (!settled) {
+          settled = true;
+          this.record(host, acquiredCircuit, outcome, isTrial);
+        }
+      },
+    };
+  }
+
+  /**
+   * Records the outcome of a request and updates the circuit state
+   * @param host - Host the request was sent to
+   * @param circuit - Circuit of the host
+   * @param outcome - Outcome of the request
+   * @param isTrial - Whether the request was a half-open trial request
+   */
+  private record(host: string, circuit: HostCircuit, outcome: CircuitOutcome, isTrial: boolean): void {
+    if (isTrial) {
+      circuit.trials--;
+      if (circuit.state !== "half-open" || outcome === "ignored") {
+        return;
+      }
+      if (outcome === "failure") {
+        this.open(host, circuit);
+        return;
+      }
+      circuit.successes++;
+      if (circuit.successes >= this._options.halfOpenMaxRequests) {
+        this.transition(host, circuit, "closed");
+      }
+      return;
+    }
+
+    if (circuit.state !== "closed" || outcome === "ignored") {
+      return;
+    }
+    circuit.outcomes.push(outcome === "failure");
+    if (circuit.outcomes.length > this._options.windowSize) {
+      circuit.outcomes.shift();
+    }
+    const failures = circuit.outcomes.filter((failed) => failed).length;
+    if (
+      circuit.outcomes.length >= this._options.minimumRequests &&
+      failures / circuit.outcomes.length >= this._options.failureRateThreshold
+    ) {
+      this.open(host, circuit);
+    }
+  }
+
+  /**
+   * Turns an open circuit half-open once its cooldown elapsed
+   * @param host - Host of the circuit
+   * @param circuit - Circuit of the host
+   */
+  private updateCooldown(host: string, circuit: HostCircuit): void {
+    if (circuit.state === "open" && Date.now() >= circuit.openedAt + this._options.cooldownMs) {
+      this.transition(host, circuit, "half-open");
+    }
+  }
+
+  /**
+   * Opens a circuit, restarting its cooldown
+   * @param host - Host of the circuit
+   * @param circuit - Circuit of the host
+   */
+  private open(host: string, circuit: HostCircuit): void {
+    circuit.openedAt = Date.now();
+    this.transition(host, circuit, "open");
+  }
+
+  /**
+   * Changes the state of a circuit, resetting its counters, and notifies the state change callback
+   * @param host - Host of the circuit
+   * @param circuit - Circuit of the host
+   * @param state - New state of the circuit
+   */
+  private transition(host: string, circuit: HostCircuit, state: CircuitState): void {
+    const previousState = circuit.state;
+    circuit.state = state;
+    circuit.outcomes = [];
+    circuit.successes = 0;
+    if (previousState !== state) {
+      this._options.onStateChange?.({ host, from: previousState, to: state });
+    }
+  }
+}
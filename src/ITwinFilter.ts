@@ -0,0 +1,320 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { isGuid } from "./QueryArgValidation";
+import type { ITwinRepresentation } from "./types/ITwin";
+
+/**
+ * iTwin properties holding GUIDs
+ */
+export type ITwinGuidField = "id" | "parentId" | "iTwinAccountId";
+
+/**
+ * iTwin properties holding ISO 8601 timestamps
+ */
+export type ITwinDateField = "createdDateTime" | "lastModifiedDateTime";
+
+/**
+ * iTwin properties a filter can compare
+ */
+export type ITwinFilterField = keyof ITwinRepresentation;
+
+/**
+ * iTwin properties holding text, usable with `startswith`, `contains` and `endswith`
+ */
+export type ITwinTextField = Exclude<
+  {
+    [K in ITwinFilterField]-?: NonNullable<ITwinRepresentation[K]> extends string ? K : never;
+  }[ITwinFilterField],
+  ITwinGuidField | ITwinDateField
+>;
+
+/**
+ * Value a filter can compare an iTwin property with.
+ * Timestamps accept a `Date` or an ISO 8601 string, other properties their own value type.
+ */
+export type ITwinFilterValue<K extends ITwinFilterField> = K extends ITwinDateField
+  ? Date | string
+  : NonNullable<ITwinRepresentation[K]>;
+
+/**
+ * Comparison operators of OData filter expressions
+ */
+type ComparisonOperator = "eq" | "ne" | "gt" | "ge" | "lt" | "le";
+
+/**
+ * Binding strength of a filter expression, used to parenthesize combined expressions
+ */
+type Precedence = "primary" | "and" | "or";
+
+const guidFields: ReadonlyArray<ITwinFilterField> = ["id", "parentId", "iTwinAccountId"];
+const dateFields: ReadonlyArray<ITwinFilterField> = ["createdDateTime", "lastModifiedDateTime"];
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?$/;
+
+/**
+ * Formats a value as an OData literal for a property
+ * @param field - Property the value is compared with
+ * @param value - Value to format, null for a null literal
+ * @returns The OData literal
+ * @throws RangeError when the value is not a valid GUID, timestamp or finite number for the property
+ */
+function formatLiteral(field: ITwinFilterField, value: string | number | Date | null): string {
+  if (value === null) {
+    return "null";
+  }
+  if (dateFields.includes(field)) {
+    if (value instanceof Date) {
+      if (isNaN(value.getTime())) {
+        throw new RangeError(`Invalid date for ${field}`);
+      }
+      return value.toISOString();
+    }
+    if (typeof value !== "string" || !isoDatePattern.test(value) || isNaN(Date.parse(value))) {
+      throw new RangeError(`Invalid ISO 8601 timestamp for ${field}: ${String(value)}`);
+    }
+    return value;
+  }
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new RangeError(`Invalid number for ${field}: ${value}`);
+    }
+    return String(value);
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  if (guidFields.includes(field) && !isGuid(text)) {
+    throw new RangeError(`Invalid GUID for ${field}: ${text}`);
+  }
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Typed OData `$filter` expression over {@link ITwinRepresentation} properties.
+ *
+ * Expressions are built with the static methods and combined with {@link ITwinFilter.and}, {@link ITwinFilter.or}
+ * and {@link ITwinFilter.not}. String values are quoted with embedded quotes doubled, GUIDs are validated and quoted,
+ * and timestamps are written as unquoted ISO 8601 literals. A filter can be passed wherever a `filter` string is accepted.
+ *
+ * @example
+ * ```typescript
+ * const filter = ITwinFilter.and(
+ *   ITwinFilter.in("status", ["Active", "Trial"]),
+ *   ITwinFilter.ge("createdDateTime", new Date("2023-01-01")),
+ *   ITwinFilter.or(ITwinFilter.startswith("number", "ABC"), ITwinFilter.contains("displayName", "O'Hare"))
+ * );
+ * // status in ('Active','Trial') and createdDateTime ge 2023-01-01T00:00:00.000Z
+ * //   and (startswith(number,'ABC') or contains(displayName,'O''Hare'))
+ * const response = await client.getITwins(token, { filter });
+ * ```
+ */
+export class ITwinFilter {
+  /**
+   * Creates a filter from a serialized expression
+   * @param _expression - OData filter expression
+   * @param _precedence - Binding strength of the expression
+   */
+  private constructor(
+    private readonly _expression: string,
+    private readonly _precedence: Precedence
+  ) {}
+
+  /**
+   * Matches iTwins whose property equals a value
+   * @param field - iTwin property
+   * @param value - Value to compare with, null to match a missing value
+   * @returns The filter
+   */
+  public static eq<K extends ITwinFilterField>(field: K, value: ITwinFilterValue<K> | null): ITwinFilter {
+    return ITwinFilter.compare("eq", field, value);
+  }
+
+  /**
+   * Matches iTwins whose property does not equal a value
+   * @param field - iTwin property
+   * @param value - Value to compare with, null to match a present value
+   * @returns The filter
+   */
+  public static ne<K extends ITwinFilterField>(field: K, value: ITwinFilterValue<K> | null): ITwinFilter {
+    return ITwinFilter.compare("ne", field, value);
+  }
+
+  /**
+   * Matches iTwins whose property is greater than a value
+   * @param field - iTwin property
+   * @param value - Value to compare with
+   * @returns The filter
+   */
+  public static gt<K extends ITwinFilterField>(field: K, value: ITwinFilterValue<K>): ITwinFilter {
+    return ITwinFilter.compare("gt", field, value);
+  }
+
+  /**
+   * Matches iTwins whose property is greater than or equal to a value
+   * @param field - iTwin property
+   * @param value - Value to compare with
+   * @returns The filter
+   */
+  public static ge<K extends ITwinFilterField>(field: K, value: ITwinFilterValue<K>): ITwinFilter {
+    return ITwinFilter.compare("ge", field, value);
+  }
+
+  /**
+   * Matches iTwins whose property is less than a value
+   * @param field - iTwin property
+   * @param value - Value to compare with
+   * @returns The filter
+   */
+  public static lt<K extends ITwinFilterField>(field: K, value: ITwinFilterValue<K>): ITwinFilter {
+    return ITwinFilter.compare("lt", field, value);
+  }
+
+  /**
+   * Matches iTwins whose property is less than or equal to a value
+   * @param field - iTwin property
+   * @param value - Value to compare with
+   * @returns The filter
+   */
+  public static le<K extends ITwinFilterField>(field: K, value: ITwinFilterValue<K>): ITwinFilter {
+    return ITwinFilter.compare("le", field, value);
+  }
+
+  /**
+   * Matches iTwins whose property equals one of the values
+   * @param field - iTwin property
+   * @param values - Values to compare with, at least one
+   * @returns The filter
+   * @throws RangeError when no value is given
+   */
+  public static in<K extends ITwinFilterField>(field: K, values: ReadonlyArray<ITwinFilterValue<K>>): ITwinFilter {
+    if (values.length === 0) {
+      throw new RangeError(`At least one value is required to filter ${field}`);
+    }
+    const literals = values.map((value) => formatLiteral(field, value));
+    return new ITwinFilter(`${field} in (${literals.join(",")})`, "primary");
+  }
+
+  /**
+   * Matches iTwins whose text property starts with a value
+   * @param field - iTwin text property
+   * @param value - Prefix to look for
+   * @returns The filter
+   */
+  public static startswith(field: ITwinTextField, value: string): ITwinFilter {
+    return ITwinFilter.call("startswith", field, value);
+  }
+
+  /**
+   * Matches iTwins whose text property contains a value
+   * @param field - iTwin text property
+   * @param value - Text to look for
+   * @returns The filter
+   */
+  public static contains(field: ITwinTextField, value: string): ITwinFilter {
+    return ITwinFilter.call("contains", field, value);
+  }
+
+  /**
+   * Matches iTwins whose text property ends with a value
+   * @param field - iTwin text property
+   * @param value - Suffix to look for
+   * @returns The filter
+   */
+  public static endswith(field: ITwinTextField, value: string): ITwinFilter {
+    return ITwinFilter.call("endswith", field, value);
+  }
+
+  /**
+   * Wraps a filter expression written by hand, to combine it with typed filters.
+   * The expression is sent as is and parenthesized when combined.
+   * @param expression - OData filter expression
+   * @returns The filter
+   */
+  public static expression(expression: string): ITwinFilter {
+    return new ITwinFilter(expression, "or");
+  }
+
+  /**
+   * Matches iTwins matching every filter
+   * @param filters - Filters to combine, at least one
+   * @returns The combined filter
+   */
+  public static and(...filters: [ITwinFilter, ...ITwinFilter[]]): ITwinFilter {
+    return ITwinFilter.combine("and", filters);
+  }
+
+  /**
+   * Matches iTwins matching at least one filter
+   * @param filters - Filters to combine, at least one
+   * @returns The combined filter
+   */
+  public static or(...filters: [ITwinFilter, ...ITwinFilter[]]): ITwinFilter {
+    return ITwinFilter.combine("or", filters);
+  }
+
+  /**
+   * Matches iTwins not matching a filter
+   * @param filter - Filter to negate
+   * @returns The negated filter
+   */
+  public static not(filter: ITwinFilter): ITwinFilter {
+    return new ITwinFilter(`not (${filter._expression})`, "primary");
+  }
+
+  /**
+   * Gets the OData expression of the filter
+   * @returns The `$filter` expression, not URL encoded
+   */
+  public toString(): string {
+    return this._expression;
+  }
+
+  /**
+   * Serializes the filter as its OData expression in request bodies
+   * @returns The `$filter` expression
+   */
+  public toJSON(): string {
+    return this._expression;
+  }
+
+  /**
+   * Creates a comparison filter
+   * @param operator - Comparison operator
+   * @param field - iTwin property
+   * @param value - Value to compare with
+   * @returns The filter
+   */
+  private static compare(
+    operator: ComparisonOperator,
+    field: ITwinFilterField,
+    value: string | number | Date | null
+  ): ITwinFilter {
+    return new ITwinFilter(`${field} ${operator} ${formatLiteral(field, value)}`, "primary");
+  }
+
+  /**
+   * Creates a string function filter
+   * @param name - Name of the string function
+   * @param field - iTwin text property
+   * @param value - Text argument of the function
+   * @returns The filter
+   */
+  private static call(name: string, field: ITwinTextField, value: string): ITwinFilter {
+    return new ITwinFilter(`${name}(${field},${formatLiteral(field, value)})`, "primary");
+  }
+
+  /**
+   * Combines filters with a logical operator, parenthesizing operands that bind less strongly
+   * @param operator - Logical operator
+   * @param filters - Filters to combine
+   * @returns The combined filter
+   */
+  private static combine(operator: "and" | "or", filters: ReadonlyArray<ITwinFilter>): ITwinFilter {
+    if (filters.length === 1) {
+      return filters[0];
+    }
+    const operands = filters.map((filter) =>
+      operator === "and" && filter._precedence === "or" ? `(${filter._expression})` : filter._expression
+    );
+    return new ITwinFilter(operands.join(` ${operator} `), operator);
+  }
+}
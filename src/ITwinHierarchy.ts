@@ -0,0 +1,121 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import type { ITwinRepresentation } from "./types/ITwin";
+import type { ITwinHierarchy, ITwinHierarchyIssue, ITwinHierarchyNode } from "./types/ITwinHierarchy";
+
+/**
+ * Creates the issue reported when following parent links leads back to an iTwin
+ * @param iTwinId - Id of the iTwin whose parent link closes the cycle
+ * @param parentId - Id of the parent the iTwin links to
+ * @returns The issue
+ *
+ * @internal
+ */
+export function createCycleIssue(iTwinId: string, parentId: string): ITwinHierarchyIssue {
+  return {
+    code: "Cycle",
+    iTwinId,
+    parentId,
+    message: `The parent ${parentId} of iTwin ${iTwinId} is already one of its descendants.`,
+  };
+}
+
+/**
+ * Creates the issue reported when the parent of an iTwin cannot be found
+ * @param iTwinId - Id of the iTwin
+ * @param parentId - Id of the missing parent
+ * @returns The issue
+ *
+ * @internal
+ */
+export function createMissingParentIssue(iTwinId: string, parentId: string): ITwinHierarchyIssue {
+  return {
+    code: "MissingParent",
+    iTwinId,
+    parentId,
+    message: `The parent ${parentId} of iTwin ${iTwinId} was not found.`,
+  };
+}
+
+/**
+ * Builds a tree of iTwins from their `parentId` links.
+ *
+ * iTwins without a parent, or whose parent is not in the list, are roots; the latter are reported as missing parents.
+ * An iTwin whose parent links form a cycle becomes a root as well, with its cycle reported,
+ * so that every iTwin of the list appears once in the tree.
+ *
+ * @param iTwins - iTwins to arrange, duplicated ids are kept once
+ * @returns The tree and the inconsistencies found
+ *
+ * @internal
+ */
+export function buildHierarchy(iTwins: ReadonlyArray<ITwinRepresentation>): ITwinHierarchy {
+  const byId = new Map<string, ITwinRepresentation>();
+  for (const iTwin of iTwins) {
+    if (!byId.has(iTwin.id)) {
+      byId.set(iTwin.id, iTwin);
+    }
+  }
+
+  const childrenOf = new Map<string, ITwinRepresentation[]>();
+  const issues: ITwinHierarchyIssue[] = [];
+  const rootITwins: ITwinRepresentation[] = [];
+  for (const iTwin of byId.values()) {
+    if (!iTwin.parentId) {
+      rootITwins.push(iTwin);
+    } else if (!byId.has(iTwin.parentId)) {
+      rootITwins.push(iTwin);
+      issues.push(createMissingParentIssue(iTwin.id, iTwin.parentId));
+    } else {
+      const siblings = childrenOf.get(iTwin.parentId) ?? [];
+      siblings.push(iTwin);
+      childrenOf.set(iTwin.parentId, siblings);
+    }
+  }
+
+  const roots: ITwinHierarchyNode[] = [];
+  const visited = new Set<string>();
+  const addTree = (rootITwin: ITwinRepresentation) => {
+    const root: ITwinHierarchyNode = { iTwin: rootITwin, depth: 0, children: [] };
+    roots.push(root);
+    visited.add(rootITwin.id);
+    // Nodes queued while iterating are visited too, which walks the tree breadth-first
+    const queue = [root];
+    for (const node of queue) {
+      for (const child of childrenOf.get(node.iTwin.id) ?? []) {
+        if (!visited.has(child.id)) {
+          visited.add(child.id);
+          const childNode: ITwinHierarchyNode = { iTwin: child, depth: node.depth + 1, children: [] };
+          node.children.push(childNode);
+          queue.push(childNode);
+        }
+      }
+    }
+  };
+  rootITwins.forEach(addTree);
+
+  // iTwins not reached from a root are in a cycle or below one: break each cycle at the iTwin closing it
+  for (const iTwin of byId.values()) {
+    if (visited.has(iTwin.id)) {
+      continue;
+    }
+    const path = new Set<string>();
+    let current = iTwin;
+    while (!path.has(current.id)) {
+      path.add(current.id);
+      current = byId.get(current.parentId as string) as ITwinRepresentation;
+    }
+    issues.push(createCycleIssue(current.id, current.parentId as string));
+    addTree(current);
+  }
+
+  // Level order across every tree: all roots first, then all their children, and so on
+  const nodes = [...roots];
+  for (const node of nodes) {
+    nodes.push(...node.children);
+  }
+
+  return { roots, nodes, issues };
+}
@@ -0,0 +1,136 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import type { ErrorDetail, ResultMode } from "./types/CommonApiTypes";
+import type { ITwinStatus, ITwinSubClass } from "./types/ITwin";
+import type { ITwinQueryScope, ITwinsQueryArg } from "./types/ITwinsQueryArgs";
+
+/**
+ * Largest page size the iTwins API accepts for `$top`
+ */
+export const maxTop = 1000;
+
+/** Known values of the enumerated query arguments */
+const subClasses: ReadonlyArray<ITwinSubClass> = ["Account", "Asset", "Project", "Portfolio", "Program", "WorkPackage"];
+const statuses: ReadonlyArray<ITwinStatus> = ["Trial", "Active", "Inactive"];
+const queryScopes: ReadonlyArray<ITwinQueryScope> = ["memberOfItwin", "all", "OrganizationAdmin"];
+const resultModes: ReadonlyArray<ResultMode> = ["minimal", "representation"];
+const guidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Checks whether a value is a GUID that filters accept for the id properties
+ * @param value - Value to check
+ * @returns True for GUIDs in the `xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx` format, in any case
+ *
+ * @internal
+ */
+export function isGuid(value: string): boolean {
+  return guidPattern.test(value);
+}
+
+/**
+ * Checks that an enumerated query argument holds a known value, or a non-empty list of known values
+ * @param field - Name of the query argument
+ * @param value - Value of the query argument, skipped when undefined
+ * @param allowed - Known values
+ * @param ignoreCase - Whether values match regardless of case, as the API does for filtering arguments
+ * @returns An error detail when a value is unknown or the list is empty
+ */
+function checkEnum(
+  field: string,
+  value: unknown,
+  allowed: ReadonlyArray<string>,
+  ignoreCase: boolean = false
+): ErrorDetail | undefined {
+  const values: unknown[] = Array.isArray(value) ? value : [value];
+  const normalize = (item: string) => (ignoreCase ? item.toLowerCase() : item);
+  const known = allowed.map(normalize);
+  const isKnown = (item: unknown) => typeof item === "string" && known.includes(normalize(item));
+  if (value === undefined || (values.length > 0 && values.every(isKnown))) {
+    return undefined;
+  }
+  return {
+    code: "InvalidValue",
+    message: `${field} must be one of ${allowed.join(", ")}, got ${JSON.stringify(value)}.`,
+    target: field,
+  };
+}
+
+/**
+ * Checks that a list-valued query argument is not empty
+ * @param field - Name of the query argument
+ * @param value - Value of the query argument, skipped when undefined
+ * @returns An error detail when the value is an empty list
+ */
+function checkNotEmpty(field: string, value: unknown): ErrorDetail | undefined {
+  if (!Array.isArray(value) || value.length > 0) {
+    return undefined;
+  }
+  return {
+    code: "InvalidValue",
+    message: `${field} must list at least one value.`,
+    target: field,
+  };
+}
+
+/**
+ * Checks that a list-valued query argument holds at most one value, for endpoints without `$filter` to send lists
+ * @param field - Name of the query argument
+ * @param value - Value of the query argument, skipped when not a list
+ * @returns An error detail when the list holds several values
+ */
+function checkSingleValue(field: string, value: unknown): ErrorDetail | undefined {
+  if (!Array.isArray(value) || value.length <= 1) {
+    return undefined;
+  }
+  return {
+    code: "InvalidValue",
+    message: `${field} accepts a single value on this endpoint, got ${value.length}.`,
+    target: field,
+  };
+}
+
+/**
+ * Checks that a numeric query argument is an integer within a range
+ * @param field - Name of the query argument
+ * @param value - Value of the query argument, skipped when undefined
+ * @param min - Smallest allowed value
+ * @param max - Largest allowed value
+ * @returns An error detail when the value is out of range
+ */
+function checkRange(field: string, value: unknown, min: number, max: number): ErrorDetail | undefined {
+  if (value === undefined || (Number.isInteger(value) && (value as number) >= min && (value as number) <= max)) {
+    return undefined;
+  }
+  const range = max === Infinity ? `an integer of at least ${min}` : `an integer from ${min} to ${max}`;
+  return {
+    code: "OutOfRange",
+    message: `${field} must be ${range}, got ${JSON.stringify(value)}.`,
+    target: field,
+  };
+}
+
+/**
+ * Validates iTwins query arguments against the ranges and enumerations the iTwins API accepts
+ * @param arg - Query arguments to validate
+ * @param acceptsLists - Whether the endpoint can send lists of several values, as an OData `in` filter
+ * @returns One error detail per offending argument, empty when all arguments are valid
+ *
+ * @internal
+ */
+export function validateITwinsQueryArg(arg: ITwinsQueryArg | undefined, acceptsLists: boolean): ErrorDetail[] {
+  if (!arg) {
+    return [];
+  }
+  const checkList = (field: string, value: unknown) => (acceptsLists ? undefined : checkSingleValue(field, value));
+  return [
+    checkRange("top", arg.top, 1, maxTop),
+    checkRange("skip", arg.skip, 0, Infinity),
+    checkEnum("subClass", arg.subClass, subClasses, true) ?? checkList("subClass", arg.subClass),
+    checkEnum("status", arg.status, statuses, true) ?? checkList("status", arg.status),
+    checkNotEmpty("type", arg.type) ?? checkList("type", arg.type),
+    checkEnum("queryScope", arg.queryScope, queryScopes),
+    checkEnum("resultMode", arg.resultMode, resultModes),
+  ].filter((detail): detail is ErrorDetail => detail !== undefined);
+}
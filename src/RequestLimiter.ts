@@ -0,0 +1,143 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import type { RateLimitOptions } from "./types/ClientOptions";
+import type { RequestPriority, RequestQueueStats } from "./types/CommonApiTypes";
+
+/**
+ * Request waiting for a slot
+ */
+interface QueuedRequest {
+  /** Starts the request, handing it the function releasing its slot */
+  start: (release: () => void) => void;
+  /** Removes the abort listener of the request */
+  removeAbortListener: () => void;
+}
+
+/**
+ * Priorities in the order queued requests are started
+ */
+const priorities: ReadonlyArray<RequestPriority> = ["high", "normal", "low"];
+
+/**
+ * Limits the number of requests in flight and the rate requests are started at.
+ * Requests beyond the limits wait in a queue, high priority requests first and in arrival order within a priority.
+ * The rate limit is a token bucket refilled continuously at `requestsPerSecond`, holding at most `burst` tokens.
+ *
+ * @internal
+ */
+export class RequestLimiter {
+  private readonly _queues: Record<RequestPriority, QueuedRequest[]> = {
+    high: [],
+    normal: [],
+    low: [],
+  };
+  private readonly _maxConcurrent: number;
+  private readonly _requestsPerSecond?: number;
+  private readonly _burst: number;
+  private _inFlight = 0;
+  private _tokens: number;
+  private _lastRefill = Date.now();
+  private _timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Creates a request limiter
+   * @param options - Limits provided by the caller
+   */
+  public constructor(options: RateLimitOptions) {
+    this._maxConcurrent = options.maxConcurrent ?? Infinity;
+    this._requestsPerSecond = options.requestsPerSecond;
+    this._burst = options.burst ?? Math.max(1, options.requestsPerSecond ?? 1);
+    this._tokens = this._burst;
+  }
+
+  /** Number of queued and in-flight requests */
+  public get stats(): RequestQueueStats {
+    return {
+      queued: priorities.reduce((total, priority) => total + this._queues[priority].length, 0),
+      queuedByPriority: {
+        high: this._queues.high.length,
+        normal: this._queues.normal.length,
+        low: this._queues.low.length,
+      },
+      inFlight: this._inFlight,
+    };
+  }
+
+  /**
+   * Waits until a request may be sent
+   * @param priority - Priority of the request in the queue
+   * @param signal - Signal removing the request from the queue when aborted
+   * @returns A function to call once the request completed, releasing its slot
+   * @throws When the signal aborts before the request could start
+   */
+  public async acquire(priority: RequestPriority, signal?: AbortSignal): Promise<() => void> {
+    signal?.throwIfAborted();
+    return new Promise<() => void>((resolve, reject) => {
+      const queue = this._queues[priority];
+      const onAbort = () => {
+        queue.splice(queue.indexOf(request), 1);
+        reject(new Error("Queued request aborted"));
+        this.drain();
+      };
+      const request: QueuedRequest = {
+        start: resolve,
+        removeAbortListener: () => signal?.removeEventListener("abort", onAbort),
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      queue.push(request);
+      this.drain();
+    });
+  }
+
+  /**
+   * Starts queued requests while slots and rate tokens are available,
+   * and schedules the next attempt when only rate tokens are missing.
+   */
+  private drain(): void {
+    if (this._timer !== undefined) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+
+    for (;;) {
+      const queue = priorities.map((priority) => this._queues[priority]).find((q) => q.length > 0);
+      if (!queue || this._inFlight >= this._maxConcurrent) {
+        return;
+      }
+
+      if (this._requestsPerSecond !== undefined) {
+        this.refill();
+        if (this._tokens < 1) {
+          const waitMs = Math.ceil(((1 - this._tokens) / this._requestsPerSecond) * 1000);
+          this._timer = setTimeout(() => this.drain(), waitMs);
+          return;
+        }
+        this._tokens--;
+      }
+
+      const request = queue.shift() as QueuedRequest;
+      request.removeAbortListener();
+      this._inFlight++;
+      let released = false;
+      request.start(() => {
+        if (!released) {
+          released = true;
+          this._inFlight--;
+          this.drain();
+        }
+      });
+    }
+  }
+
+  /**
+   * Adds the rate tokens earned since the last refill, up to the burst size
+   */
+  private refill(): void {
+    const now = Date.now();
+    const earned = ((now - this._lastRefill) / 1000) * (this._requestsPerSecond ?? 0);
+    this._tokens = Math.min(this._burst, this._tokens + earned);
+    this._lastRefill = now;
+  }
+}
@@ -0,0 +1,208 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import type { AccessToken } from "@itwin/core-bentley";
+import type { ResponseCacheOptions } from "./types/ClientOptions";
+import type { BentleyAPIResponse } from "./types/CommonApiTypes";
+
+/**
+ * Request headers that change the content of a response and are part of the cache key
+ */
+const varyingHeaders: ReadonlyArray<string> = ["prefer", "x-itwin-query-scope"];
+
+/**
+ * Cached response and its freshness information
+ */
+interface CacheEntry {
+  /** URL of the cached response */
+  url: string;
+  /** Cached response, without request metadata */
+  response: BentleyAPIResponse<unknown>;
+  /** Time in milliseconds since epoch after which the entry must be revalidated */
+  expiresAt: number;
+  /** ETag of the cached response, used for If-None-Match revalidation */
+  etag?: string;
+}
+
+/**
+ * Result of a cache lookup
+ */
+export interface CacheLookup {
+  /** Cached response, undefined when nothing is cached */
+  response?: BentleyAPIResponse<unknown>;
+  /** Whether the cached response can be returned without contacting the server */
+  fresh: boolean;
+  /** ETag to revalidate a stale cached response with */
+  etag?: string;
+}
+
+/**
+ * Gets the URL of a resource without its query string and trailing slash
+ * @param url - Absolute URL of a request
+ * @returns The origin and path of the URL
+ */
+function getResourcePath(url: string): string {
+  try {
+    const parsedUrl = new URL(url);
+    return `${parsedUrl.origin}${parsedUrl.pathname.replace(/\/+$/, "")}`;
+  } catch {
+    return url.split("?")[0].replace(/\/+$/, "");
+  }
+}
+
+/**
+ * In-memory cache of GET responses, evicting the least recently used entries beyond its size limit.
+ * Cached responses are deep copied on the way in and out so callers cannot alter them.
+ *
+ * @internal
+ */
+export class ResponseCache {
+  private readonly _entries = new Map<string, CacheEntry>();
+  private readonly _ttlMs: number;
+  private readonly _endpointTtls: ReadonlyArray<{ pattern: RegExp; ttlMs: number }>;
+  private readonly _maxEntries: number;
+  private readonly _tokenIdentity: (accessToken: AccessToken) => string;
+
+  /**
+   * Creates a response cache
+   * @param options - Cache options provided by the caller
+   */
+  public constructor(options: ResponseCacheOptions) {
+    this._ttlMs = options.ttlMs ?? 60000;
+    this._endpointTtls = options.endpointTtls ?? [];
+    this._maxEntries = options.maxEntries ?? 500;
+    this._tokenIdentity = options.tokenIdentity ?? ((accessToken) => accessToken);
+  }
+
+  /** Number of cached responses */
+  public get size(): number {
+    return this._entries.size;
+  }
+
+  /**
+   * Creates the key of a request
+   * @param accessToken - Access token of the request
+   * @param url - Absolute URL of the request
+   * @param headers - Headers of the request
+   * @returns Key identifying the request in the cache
+   */
+  public getKey(accessToken: AccessToken, url: string, headers: Record<string, string>): string {
+    const lowerCaseHeaders: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      lowerCaseHeaders[name.toLowerCase()] = value;
+    }
+    const varyingValues = varyingHeaders.map((name) => lowerCaseHeaders[name] ?? "");
+    return JSON.stringify([this._tokenIdentity(accessToken), url, ...varyingValues]);
+  }
+
+  /**
+   * Looks up the cached response of a request
+   * @param key - Key of the request
+   * @returns The cached response and whether it is still fresh
+   */
+  public get(key: string): CacheLookup {
+    const entry = this._entries.get(key);
+    if (!entry) {
+      return { fresh: false };
+    }
+
+    // Re-insert the entry to mark it as most recently used
+    this._entries.delete(key);
+    this._entries.set(key, entry);
+
+    const fresh = Date.now() < entry.expiresAt;
+    if (!fresh && !entry.etag) {
+      this._entries.delete(key);
+      return { fresh: false };
+    }
+
+    return { response: structuredClone(entry.response), fresh, etag: entry.etag };
+  }
+
+  /**
+   * Caches the response of a request, unless its endpoint has a TTL of 0
+   * @param key - Key of the request
+   * @param url - Absolute URL of the request
+   * @param response - Successful response to cache
+   */
+  public set(key: string, url: string, response: BentleyAPIResponse<unknown>): void {
+    const ttlMs = this.getTtl(url);
+    if (ttlMs <= 0) {
+      return;
+    }
+
+    const cachedResponse: BentleyAPIResponse<unknown> = {
+      status: response.status,
+      data: response.data,
+      ...(response.headers ? { headers: response.headers } : {}),
+      ...(response.etag ? { etag: response.etag } : {}),
+    };
+    this._entries.delete(key);
+    this._entries.set(key, {
+      url,
+      response: structuredClone(cachedResponse),
+      expiresAt: Date.now() + ttlMs,
+      etag: response.etag ?? response.headers?.etag,
+    });
+
+    while (this._entries.size > this._maxEntries) {
+      const oldestKey = this._entries.keys().next().value as string;
+      this._entries.delete(oldestKey);
+    }
+  }
+
+  /**
+   * Marks a stale cached response as fresh again after the server confirmed it did not change
+   * @param key - Key of the request
+   */
+  public refresh(key: string): void {
+    const entry = this._entries.get(key);
+    if (entry) {
+      entry.expiresAt = Date.now() + this.getTtl(entry.url);
+    }
+  }
+
+  /**
+   * Removes cached responses
+   * @param match - URL prefix or predicate selecting the responses to remove, all responses when omitted
+   */
+  public invalidate(match?: string | ((url: string) => boolean)): void {
+    for (const [key, entry] of [...this._entries]) {
+      const matches =
+        match === undefined ||
+        (typeof match === "string" ? entry.url.startsWith(match) : match(entry.url));
+      if (matches) {
+        this._entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Removes the cached responses a modification of a resource may have changed:
+   * the resource itself, the resources below it and the collection containing it.
+   * @param url - Absolute URL of the modified resource
+   */
+  public invalidateModified(url: string): void {
+    const resourcePath = getResourcePath(url);
+    const collectionPath = resourcePath.slice(0, resourcePath.lastIndexOf("/"));
+    this.invalidate((cachedUrl) => {
+      const cachedPath = getResourcePath(cachedUrl);
+      return (
+        cachedPath === resourcePath ||
+        cachedPath.startsWith(`${resourcePath}/`) ||
+        cachedPath === collectionPath
+      );
+    });
+  }
+
+  /**
+   * Gets the time to live of the responses of an endpoint
+   * @param url - Absolute URL of the request
+   * @returns TTL of the first matching endpoint rule, or the default TTL
+   */
+  private getTtl(url: string): number {
+    const rule = this._endpointTtls.find(({ pattern }) => pattern.test(url));
+    return rule ? rule.ttlMs : this._ttlMs;
+  }
+}
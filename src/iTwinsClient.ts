@@ -8,15 +8,29 @@
 
 import type { AccessToken } from "@itwin/core-bentley";
 import { BaseITwinsApiClient } from "./BaseITwinsApiClient.js";
+import { ITwinFilter } from "./ITwinFilter.js";
+import { buildHierarchy, createCycleIssue, createMissingParentIssue } from "./ITwinHierarchy.js";
+import { isGuid, maxTop, validateITwinsQueryArg } from "./QueryArgValidation.js";
+import type { ITwinsClientOptions } from "./types/ClientOptions.js";
 import type {
+  AllPagesResponse,
+  BatchRequestOptions,
   BentleyAPIResponse,
-  ODataQueryParams,
+  ConditionalRequestOptions,
+  ODataListingQueryParams,
+  PaginationOptions,
+  RequestOptions,
   ResultMode,
+  WithTotalCount,
 } from "./types/CommonApiTypes";
+import { BentleyAPIResponseError } from "./types/CommonApiTypes";
 import type {
   ItwinCreate,
+  ITwinMinimal,
   ITwinMinimalResponse,
+  ITwinRepresentation,
   ITwinRepresentationResponse,
+  ITwinsByIdsResponse,
   ItwinUpdate,
   MultiITwinMinimalResponse,
   MultiITwinRepresentationResponse,
@@ -26,11 +40,20 @@ import type {
   ITwinExportRequestInfo,
   ITwinExportSingleResponse,
 } from "./types/ITwinExport";
+import type {
+  HierarchyOptions,
+  ITwinAncestorsResponse,
+  ITwinHierarchy,
+  ITwinHierarchyIssue,
+  ITwinHierarchyNode,
+} from "./types/ITwinHierarchy.js";
 import type { ITwinImageResponse } from "./types/ITwinImage.js";
 import type {
   ITwinQueryScope,
   ITwinsGetQueryArg,
   ITwinsQueryArg,
+  ITwinsQueryItem,
+  ITwinsQueryResponse,
 } from "./types/ITwinsQueryArgs.js";
 import type {
   GetMultiRepositoryResourceMinimalResponse,
@@ -45,61 +68,172 @@ import type {
   SingleRepositoryResponse,
 } from "./types/Repository";
 
+/**
+ * Gets the items of a page of a listing
+ * @param page - Body of the page
+ * @param itemsKey - Property of the page holding its items
+ * @returns The items of the page, empty when the page has none
+ */
+function getPageItems(page: unknown, itemsKey: string): unknown[] {
+  const items = (page as Record<string, unknown> | undefined)?.[itemsKey];
+  return Array.isArray(items) ? items : [];
+}
+
+/**
+ * Splits iTwin IDs into lists whose `id in (...)` filter keeps a request URL within a length limit
+ * @param ids - GUIDs to split
+ * @param baseLength - Length of the request URL without the filter expression
+ * @param maxUrlLength - Maximum length of a request URL
+ * @param maxChunkSize - Maximum number of IDs in a list
+ * @returns Lists of IDs, in order, each holding at least one ID
+ */
+function chunkIds(
+  ids: ReadonlyArray<string>,
+  baseLength: number,
+  maxUrlLength: number,
+  maxChunkSize: number
+): string[][] {
+  const emptyLength = baseLength + encodeURIComponent("id in ()").length;
+  const separatorLength = encodeURIComponent(",").length;
+  const chunks: string[][] = [];
+  let chunk: string[] = [];
+  let length = emptyLength;
+  for (const id of ids) {
+    const literalLength = encodeURIComponent(`'${id}'`).length;
+    if (
+      chunk.length > 0 &&
+      (length + separatorLength + literalLength > maxUrlLength || chunk.length >= maxChunkSize)
+    ) {
+      chunks.push(chunk);
+      chunk = [];
+      length = emptyLength;
+    }
+    length += (chunk.length > 0 ? separatorLength : 0) + literalLength;
+    chunk.push(id);
+  }
+  if (chunk.length > 0) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+/**
+ * Sends one request per item with a bounded number of requests in flight, stopping at the first failure
+ * @param items - Items to send a request for
+ * @param concurrency - Maximum number of requests in flight at once
+ * @param request - Sends the request of an item
+ * @returns The data of every response in item order, or the first failed response
+ */
+async function mapConcurrently<TItem, TData>(
+  items: ReadonlyArray<TItem>,
+  concurrency: number,
+  request: (item: TItem) => Promise<BentleyAPIResponse<TData>>
+): Promise<{ data: TData[]; failure?: BentleyAPIResponse<never> }> {
+  const data: TData[] = [];
+  let failure: BentleyAPIResponse<never> | undefined;
+  let nextIndex = 0;
+  const worker = async () => {
+    while (!failure && nextIndex < items.length) {
+      const index = nextIndex++;
+      const response = await request(items[index]);
+      if (response.error || response.data === undefined) {
+        failure ??= response as BentleyAPIResponse<never>;
+        return;
+      }
+      data[index] = response.data;
+    }
+  };
+  const workerCount = Math.min(Math.max(1, concurrency), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return { data, failure };
+}
+
 /** Client API to access the iTwins service.
  * @beta
  */
 export class ITwinsClient extends BaseITwinsApiClient {
-  constructor(url?: string, maxRedirects?: number) {
-    super(url, maxRedirects);
+  /**
+   * Creates a new iTwins client
+   * @param urlOrOptions - Optional custom base URL, or client options (base URL, max redirects, fetch implementation, default headers)
+   * @param maxRedirects - Optional custom max redirects, used only with a positional URL
+   */
+  constructor(urlOrOptions?: string | ITwinsClientOptions, maxRedirects?: number) {
+    super(urlOrOptions, maxRedirects);
   }
 
   /** Get a list of iTwin exports for the current user
    * @param accessToken The client access token string
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with an array of export operations
    */
   public async getExports(
-    accessToken: AccessToken
+    accessToken: AccessToken,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ITwinExportMultiResponse>> {
     const url = `${this._baseUrl}/exports`;
-    return this.sendGenericAPIRequest(accessToken, "GET", url);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "GET",
+      url,
+      undefined,
+      undefined,
+      false,
+      options
+    );
   }
 
   /** Get details of a specific iTwin export operation
    * @param accessToken The client access token string
    * @param id The id of the export operation to retrieve
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with the export operation details
    */
   public async getExport(
     accessToken: AccessToken,
-    id: string
+    id: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ITwinExportSingleResponse>> {
     const url = `${this._baseUrl}/exports/${id}`;
-    return this.sendGenericAPIRequest(accessToken, "GET", url);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "GET",
+      url,
+      undefined,
+      undefined,
+      false,
+      options
+    );
   }
 
   /**
    * Create a new iTwin export
    * @param accessToken The client access token string
    * @param args Export query arguments including scope, filters, and output format
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Export response with operation details
    */
   public async createExport(
     accessToken: AccessToken,
-    args: ITwinExportRequestInfo
+    args: ITwinExportRequestInfo,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ITwinExportSingleResponse>> {
     const url = `${this._baseUrl}/exports`;
+    const select = typeof args.select === "string" ? args.select : args.select?.join(",");
     return this.sendGenericAPIRequest(
       accessToken,
       "POST",
       url,
-      args,
-      undefined
+      select === undefined ? args : { ...args, select },
+      undefined,
+      false,
+      options
     );
   }
 
   /** Get favorites iTwins accessible to the user
    * @param accessToken The client access token string
    * @param arg Optional query arguments, for paging, searching, and filtering
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Array of iTwins, may be empty, if no favorites
    * @example
    * ```typescript
@@ -115,12 +249,17 @@ export class ITwinsClient extends BaseITwinsApiClient {
    */
   public async getFavoritesITwins<T extends ITwinsQueryArg = ITwinsQueryArg>(
     accessToken: AccessToken,
-    arg?: T
+    arg?: T,
+    options?: RequestOptions
   ): Promise<
     BentleyAPIResponse<T["resultMode"] extends "representation"
       ? MultiITwinRepresentationResponse
       : MultiITwinMinimalResponse>
   > {
+    const invalidResponse = this.validateQueryArg(arg);
+    if (invalidResponse) {
+      return invalidResponse;
+    }
     const headers = this.getHeaders(arg);
     const url = `${this._baseUrl}/favorites/?${this.getQueryStringArg(
       ITwinsClient.iTwinsQueryParamMapping,
@@ -132,34 +271,97 @@ export class ITwinsClient extends BaseITwinsApiClient {
       "GET",
       url,
       undefined,
-      headers
+      headers,
+      false,
+      options
+    );
+  }
+
+  /** Iterate over the iTwins the user marked as favorites, following the `_links.next` link of every page
+   * @param accessToken The client access token string
+   * @param arg Optional query arguments for the first page; `top` sets the page size
+   * @param options Optional request options, such as an abort signal or a timeout applied to every page request, and a `maxItems` cap
+   * @returns Async iterable over the iTwins of every page
+   * @throws BentleyAPIResponseError when a page request fails or is aborted
+   */
+  public async *iterateFavoritesITwins<T extends ITwinsQueryArg = ITwinsQueryArg>(
+    accessToken: AccessToken,
+    arg?: T,
+    options?: PaginationOptions
+  ): AsyncIterable<T["resultMode"] extends "representation" ? ITwinRepresentation : ITwinMinimal> {
+    yield* this.iterateItems<
+      T["resultMode"] extends "representation" ? ITwinRepresentation : ITwinMinimal
+    >(
+      this.iterateITwinPages(accessToken, async () => this.getFavoritesITwins(accessToken, arg, options), arg, options),
+      "iTwins"
+    );
+  }
+
+  /** Get the iTwins the user marked as favorites from every page, following the `_links.next` link of every page
+   * @param accessToken The client access token string
+   * @param arg Optional query arguments for the first page; `top` sets the page size
+   * @param options Optional request options, such as an abort signal or a timeout applied to every page request, and a `maxItems` cap
+   * @returns Promise that resolves with the iTwins of every page, or with the response of the first failed page request
+   */
+  public async getAllFavoritesITwins<T extends ITwinsQueryArg = ITwinsQueryArg>(
+    accessToken: AccessToken,
+    arg?: T,
+    options?: PaginationOptions
+  ): Promise<
+    BentleyAPIResponse<AllPagesResponse<T["resultMode"] extends "representation"
+      ? MultiITwinRepresentationResponse
+      : MultiITwinMinimalResponse>>
+  > {
+    return this.collectPages(
+      this.iterateITwinPages(accessToken, async () => this.getFavoritesITwins(accessToken, arg, options), arg, options),
+      "iTwins"
     );
   }
 
   /** Add the specified iTwin to the user's favorites list
    * @param accessToken The client access token string
    * @param iTwinId The id of the iTwin to add to favorites
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves when the iTwin is successfully added to favorites
    */
   public async addITwinToFavorites(
     accessToken: AccessToken,
-    iTwinId?: string
+    iTwinId?: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<undefined>> {
     const url = `${this._baseUrl}/favorites/${iTwinId}`;
-    return this.sendGenericAPIRequest(accessToken, "POST", url);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "POST",
+      url,
+      undefined,
+      undefined,
+      false,
+      options
+    );
   }
 
   /** Remove the specified iTwin from the user's favorites list
    * @param accessToken The client access token string
    * @param iTwinId The id of the iTwin to remove from favorites
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves when the iTwin is successfully removed from favorites
    */
   public async removeITwinFromFavorites(
     accessToken: AccessToken,
-    iTwinId?: string
+    iTwinId?: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<undefined>> {
     const url = `${this._baseUrl}/favorites/${iTwinId}`;
-    return this.sendGenericAPIRequest(accessToken, "DELETE", url);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "DELETE",
+      url,
+      undefined,
+      undefined,
+      false,
+      options
+    );
   }
 
   /** Upload an image to the specified iTwin
@@ -167,57 +369,95 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * @param iTwinId The id of the iTwin to upload the image to
    * @param imageBlob The image file as a Blob (must be PNG or JPEG)
    * @param contentType The content type of the image ("image/png" | "image/jpeg")
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with the uploaded image details including URLs for small and large versions
    */
   public async uploadITwinImage(
     accessToken: AccessToken,
     iTwinId: string,
     imageBlob: Blob,
-    contentType: "image/png" | "image/jpeg"
+    contentType: "image/png" | "image/jpeg",
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ITwinImageResponse>> {
     const url = `${this._baseUrl}/${iTwinId}/image`;
-    return this.sendGenericAPIRequest(accessToken, "PUT", url, imageBlob, {
-      contentType,
-    });
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "PUT",
+      url,
+      imageBlob,
+      { contentType },
+      false,
+      options
+    );
   }
 
   /** Get the image associated with the specified iTwin
    * @param accessToken The client access token string
    * @param iTwinId The id of the iTwin to retrieve the image from
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with the image details including URLs for small and large versions
    */
   public async getITwinImage(
     accessToken: AccessToken,
-    iTwinId: string
+    iTwinId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ITwinImageResponse>> {
     const url = `${this._baseUrl}/${iTwinId}/image`;
-    return this.sendGenericAPIRequest(accessToken, "GET", url);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "GET",
+      url,
+      undefined,
+      undefined,
+      false,
+      options
+    );
   }
 
   /** Delete the image associated with the specified iTwin
    * @param accessToken The client access token string
    * @param iTwinId The id of the iTwin to delete the image from
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves when the image is successfully deleted
    */
   public async deleteITwinImage(
     accessToken: AccessToken,
-    iTwinId: string
+    iTwinId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<undefined>> {
     const url = `${this._baseUrl}/${iTwinId}/image`;
-    return this.sendGenericAPIRequest(accessToken, "DELETE", url);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "DELETE",
+      url,
+      undefined,
+      undefined,
+      false,
+      options
+    );
   }
 
   /** Add the specified iTwin to the user's recently used list
    * @param accessToken The client access token string
    * @param iTwinId The id of the iTwin to add to the recently used list
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves when the iTwin is successfully added to the recently used list
    */
   public async addITwinToMyRecents(
     accessToken: AccessToken,
-    iTwinId: string
+    iTwinId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<undefined>> {
     const url = `${this._baseUrl}/recents/${iTwinId}`;
-    return this.sendGenericAPIRequest(accessToken, "POST", url);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "POST",
+      url,
+      undefined,
+      undefined,
+      false,
+      options
+    );
   }
 
   /** Get recently used iTwins for the current user
@@ -232,6 +472,7 @@ export class ITwinsClient extends BaseITwinsApiClient {
    *
    * @param accessToken The client access token string
    * @param arg Optional query arguments, for paging, searching, and filtering (including status and includeInactive)
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with an array of recently used iTwins (maximum 25), ordered by most recent first
    * @example
    * ```typescript
@@ -247,12 +488,17 @@ export class ITwinsClient extends BaseITwinsApiClient {
    */
   public async getRecentUsedITwins<T extends ITwinsQueryArg = ITwinsQueryArg>(
     accessToken: AccessToken,
-    arg?: T
+    arg?: T,
+    options?: RequestOptions
   ): Promise<
     BentleyAPIResponse<T["resultMode"] extends "representation"
       ? MultiITwinRepresentationResponse
       : MultiITwinMinimalResponse>
   > {
+    const invalidResponse = this.validateQueryArg(arg);
+    if (invalidResponse) {
+      return invalidResponse;
+    }
     const headers = this.getHeaders(arg);
     let url = `${this._baseUrl}/recents`;
     const query = this.getQueryStringArg(
@@ -265,13 +511,57 @@ export class ITwinsClient extends BaseITwinsApiClient {
       "GET",
       url,
       undefined,
-      headers
+      headers,
+      false,
+      options
+    );
+  }
+
+  /** Iterate over the iTwins the user recently used, following the `_links.next` link of every page
+   * @param accessToken The client access token string
+   * @param arg Optional query arguments for the first page; `top` sets the page size
+   * @param options Optional request options, such as an abort signal or a timeout applied to every page request, and a `maxItems` cap
+   * @returns Async iterable over the iTwins of every page
+   * @throws BentleyAPIResponseError when a page request fails or is aborted
+   */
+  public async *iterateRecentUsedITwins<T extends ITwinsQueryArg = ITwinsQueryArg>(
+    accessToken: AccessToken,
+    arg?: T,
+    options?: PaginationOptions
+  ): AsyncIterable<T["resultMode"] extends "representation" ? ITwinRepresentation : ITwinMinimal> {
+    yield* this.iterateItems<
+      T["resultMode"] extends "representation" ? ITwinRepresentation : ITwinMinimal
+    >(
+      this.iterateITwinPages(accessToken, async () => this.getRecentUsedITwins(accessToken, arg, options), arg, options),
+      "iTwins"
+    );
+  }
+
+  /** Get the iTwins the user recently used from every page, following the `_links.next` link of every page
+   * @param accessToken The client access token string
+   * @param arg Optional query arguments for the first page; `top` sets the page size
+   * @param options Optional request options, such as an abort signal or a timeout applied to every page request, and a `maxItems` cap
+   * @returns Promise that resolves with the iTwins of every page, or with the response of the first failed page request
+   */
+  public async getAllRecentUsedITwins<T extends ITwinsQueryArg = ITwinsQueryArg>(
+    accessToken: AccessToken,
+    arg?: T,
+    options?: PaginationOptions
+  ): Promise<
+    BentleyAPIResponse<AllPagesResponse<T["resultMode"] extends "representation"
+      ? MultiITwinRepresentationResponse
+      : MultiITwinMinimalResponse>>
+  > {
+    return this.collectPages(
+      this.iterateITwinPages(accessToken, async () => this.getRecentUsedITwins(accessToken, arg, options), arg, options),
+      "iTwins"
     );
   }
 
   /** Get global repositories accessible to user with optional filtering
    * @param accessToken The client access token string
    * @param arg Optional query arguments for repository class and subClass identifiers. If subClass is specified, class is also required.
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with an array of global repositories, may be empty
    * @beta
    */
@@ -279,7 +569,8 @@ export class ITwinsClient extends BaseITwinsApiClient {
     accessToken: AccessToken,
     arg?:
       | { class: Repository["class"] }
-      | { class: Repository["class"]; subClass: Repository["subClass"] }
+      | { class: Repository["class"]; subClass: Repository["subClass"] },
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<MultiRepositoriesResponse>> {
     let url = `${this._baseUrl}/repositories`;
     const query = this.getQueryStringArg(ITwinsClient.repositoryParamMapping, arg);
@@ -287,21 +578,39 @@ export class ITwinsClient extends BaseITwinsApiClient {
       url += `?${query}`;
     }
 
-    return this.sendGenericAPIRequest(accessToken, "GET", url);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "GET",
+      url,
+      undefined,
+      undefined,
+      false,
+      options
+    );
   }
 
   /** Get a specific global repository by ID
    * @param accessToken The client access token string
    * @param repositoryId The id of the global repository
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with the global repository details
    * @beta
    */
   public async getGlobalRepository(
     accessToken: AccessToken,
-    repositoryId: string
+    repositoryId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<SingleRepositoryResponse>> {
     const url = `${this._baseUrl}/repositories/${repositoryId}`;
-    return this.sendGenericAPIRequest(accessToken, "GET", url);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "GET",
+      url,
+      undefined,
+      undefined,
+      false,
+      options
+    );
   }
 
   /** Get a specific global repository resource by ID
@@ -309,6 +618,7 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * @param repositoryId The id of the global repository containing the resource
    * @param resourceId The unique id of the global repository resource to retrieve
    * @param resultMode Optional result mode controlling the level of detail returned (minimal or representation)
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with the global repository resource details in the requested format
    * @example
    * ```typescript
@@ -327,7 +637,8 @@ export class ITwinsClient extends BaseITwinsApiClient {
     accessToken: AccessToken,
     repositoryId: string,
     resourceId: string,
-    resultMode?: T
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<
     BentleyAPIResponse<T extends "representation"
       ? GetRepositoryResourceRepresentationResponse
@@ -341,7 +652,8 @@ export class ITwinsClient extends BaseITwinsApiClient {
       url,
       undefined,
       headers,
-      true
+      true,
+      options
     );
   }
 
@@ -350,6 +662,7 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * @param repositoryId The id of the global repository containing the resources
    * @param args Optional query parameters for search, pagination (skip, top)
    * @param resultMode Optional result mode controlling the level of detail returned (minimal or representation)
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with an array of global repository resources in the requested format
    * @example
    * ```typescript
@@ -364,19 +677,23 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * ```
    * @beta
    */
-  public async getGlobalRepositoryResources<T extends ResultMode = "minimal">(
+  public async getGlobalRepositoryResources<
+    T extends ResultMode = "minimal",
+    A extends ODataListingQueryParams = ODataListingQueryParams
+  >(
     accessToken: AccessToken,
     repositoryId: string,
-    args?: Pick<ODataQueryParams, "search" | "skip" | "top">,
-    resultMode?: T
+    args?: A,
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<
-    BentleyAPIResponse<T extends "representation"
+    BentleyAPIResponse<WithTotalCount<T extends "representation"
       ? GetMultiRepositoryResourceRepresentationResponse
-      : GetMultiRepositoryResourceMinimalResponse>
+      : GetMultiRepositoryResourceMinimalResponse, A>>
   > {
     const headers = this.getResultModeHeaders(resultMode);
     let url = `${this._baseUrl}/repositories/${repositoryId}/resources`;
-    const query = this.getQueryStringArg(ITwinsClient.ODataParamMapping, args);
+    const query = this.getQueryStringArg<ODataListingQueryParams>(ITwinsClient.ODataParamMapping, args);
     if (query !== "") {
       url += `?${query}`;
     }
@@ -387,7 +704,81 @@ export class ITwinsClient extends BaseITwinsApiClient {
       url,
       undefined,
       headers,
-      true
+      true,
+      options
+    );
+  }
+
+  /**
+   * Iterate over the resources of a global repository, following the `_links.next` link of every page.
+   * Next links to federated repository hosts must satisfy the trusted host policy.
+   *
+   * @param accessToken - The client access token string for authorization
+   * @param repositoryId - The id of the global repository containing the resources
+   * @param args - Optional query parameters for the first page, `top` sets the page size
+   * @param resultMode - Optional result mode controlling the level of detail returned (minimal or representation)
+   * @param options - Optional request options, such as an abort signal or a timeout applied to every page request, and a `maxItems` cap
+   * @returns Async iterable over the resources of every page
+   * @throws BentleyAPIResponseError when a page request fails, is aborted, or a next link is rejected
+   * @beta
+   */
+  public async *iterateGlobalRepositoryResources<T extends ResultMode = "minimal">(
+    accessToken: AccessToken,
+    repositoryId: string,
+    args?: ODataListingQueryParams,
+    resultMode?: T,
+    options?: PaginationOptions
+  ): AsyncIterable<
+    T extends "representation"
+    ? GetMultiRepositoryResourceRepresentationResponse["resources"][number]
+    : GetMultiRepositoryResourceMinimalResponse["resources"][number]
+  > {
+    yield* this.iterateItems<
+      T extends "representation"
+        ? GetMultiRepositoryResourceRepresentationResponse["resources"][number]
+        : GetMultiRepositoryResourceMinimalResponse["resources"][number]
+    >(
+      this.iterateResourcePages<T>(
+        accessToken,
+        async () => this.getGlobalRepositoryResources(accessToken, repositoryId, args, resultMode, options),
+        resultMode,
+        options
+      ),
+      "resources"
+    );
+  }
+
+  /**
+   * Get the resources of a global repository from every page, following the `_links.next` link of every page.
+   * Next links to federated repository hosts must satisfy the trusted host policy.
+   *
+   * @param accessToken - The client access token string for authorization
+   * @param repositoryId - The id of the global repository containing the resources
+   * @param args - Optional query parameters for the first page, `top` sets the page size
+   * @param resultMode - Optional result mode controlling the level of detail returned (minimal or representation)
+   * @param options - Optional request options, such as an abort signal or a timeout applied to every page request, and a `maxItems` cap
+   * @returns Promise that resolves with the resources of every page, or with the response of the first failed page request
+   * @beta
+   */
+  public async getAllGlobalRepositoryResources<T extends ResultMode = "minimal">(
+    accessToken: AccessToken,
+    repositoryId: string,
+    args?: ODataListingQueryParams,
+    resultMode?: T,
+    options?: PaginationOptions
+  ): Promise<
+    BentleyAPIResponse<AllPagesResponse<T extends "representation"
+      ? GetMultiRepositoryResourceRepresentationResponse
+      : GetMultiRepositoryResourceMinimalResponse>>
+  > {
+    return this.collectPages(
+      this.iterateResourcePages<T>(
+        accessToken,
+        async () => this.getGlobalRepositoryResources(accessToken, repositoryId, args, resultMode, options),
+        resultMode,
+        options
+      ),
+      "resources"
     );
   }
 
@@ -395,6 +786,7 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * @param accessToken The client access token string for authorization
    * @param repositoryId The global repository identifier
    * @param resourceId The resource identifier
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with graphics metadata including content type, URI, and authentication
    * @example
    * ```typescript
@@ -405,7 +797,8 @@ export class ITwinsClient extends BaseITwinsApiClient {
   public async getGlobalResourceGraphics(
     accessToken: AccessToken,
     repositoryId: string,
-    resourceId: string
+    resourceId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ResourceGraphicsResponse>> {
     const url = `${this._baseUrl}/repositories/${repositoryId}/resources/${resourceId}/graphics`;
     return this.sendGenericAPIRequest(
@@ -414,7 +807,8 @@ export class ITwinsClient extends BaseITwinsApiClient {
       url,
       undefined,
       undefined,
-      true
+      true,
+      options
     );
   }
 
@@ -422,37 +816,58 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * @param accessToken The client access token string
    * @param iTwinId The id of the iTwin
    * @param repository The Repository data to be created
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with the created repository details
    * @beta
    */
   public async createRepository(
     accessToken: AccessToken,
     iTwinId: string,
-    repository: NewRepositoryConfig
+    repository: NewRepositoryConfig,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<SingleRepositoryResponse>> {
     const url = `${this._baseUrl}/${iTwinId}/repositories`;
-    return this.sendGenericAPIRequest(accessToken, "POST", url, repository);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "POST",
+      url,
+      repository,
+      undefined,
+      false,
+      options
+    );
   }
 
   /** Delete the specified iTwin Repository
    * @param accessToken The client access token string
    * @param iTwinId The id of the iTwin
    * @param repositoryId The id of the Repository to delete
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves when the repository is successfully deleted
    */
   public async deleteRepository(
     accessToken: AccessToken,
     iTwinId: string,
-    repositoryId: string
+    repositoryId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<undefined>> {
     const url = `${this._baseUrl}/${iTwinId}/repositories/${repositoryId}`;
-    return this.sendGenericAPIRequest(accessToken, "DELETE", url);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "DELETE",
+      url,
+      undefined,
+      undefined,
+      false,
+      options
+    );
   }
 
   /** Get repositories accessible to user with optional filtering
    * @param accessToken The client access token string
    * @param iTwinId The id of the iTwin
    * @param arg Optional query arguments for repository class and subClass identifiers. If subClass is specified, class is also required.
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with an array of repositories, may be empty
    */
   public async getRepositories(
@@ -460,7 +875,8 @@ export class ITwinsClient extends BaseITwinsApiClient {
     iTwinId: string,
     arg?:
       | { class: Repository["class"] }
-      | { class: Repository["class"]; subClass: Repository["subClass"] }
+      | { class: Repository["class"]; subClass: Repository["subClass"] },
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<MultiRepositoriesResponse>> {
     const url = `${
       this._baseUrl
@@ -469,23 +885,41 @@ export class ITwinsClient extends BaseITwinsApiClient {
       arg
     )}`;
 
-    return this.sendGenericAPIRequest(accessToken, "GET", url);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "GET",
+      url,
+      undefined,
+      undefined,
+      false,
+      options
+    );
   }
 
   /** Get a specific repository by ID
    * @param accessToken The client access token string
    * @param iTwinId The id of the iTwin
    * @param repositoryId The id of the Repository
-   * @returns Promise that resolves with the repository details
+   * @param options Optional request options such as an abort signal or a timeout
+   * @returns Promise that resolves with the repository details, and its version in `etag` when the server provides one
    * @beta
    */
   public async getRepository(
     accessToken: AccessToken,
     iTwinId: string,
-    repositoryId: string
+    repositoryId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<SingleRepositoryResponse>> {
     const url = `${this._baseUrl}/${iTwinId}/repositories/${repositoryId}`;
-    return this.sendGenericAPIRequest(accessToken, "GET", url);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "GET",
+      url,
+      undefined,
+      undefined,
+      false,
+      options
+    );
   }
 
   /** Update the specified iTwin Repository
@@ -493,17 +927,27 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * @param iTwinId The id of the iTwin
    * @param repositoryId The id of the Repository
    * @param repository Updated repository data (excluding id, class, and subClass)
-   * @returns Promise that resolves with the updated repository
+   * @param options Optional request options such as an abort signal, a timeout or an `ifMatch` ETag precondition
+   * @returns Promise that resolves with the updated repository, or a `PreconditionFailed` error if `ifMatch` no longer matches
    * @beta
    */
   public async updateRepository(
     accessToken: AccessToken,
     iTwinId: string,
     repositoryId: string,
-    repository: Partial<Omit<Repository, "id" | "class" | "subClass" | "capabilities">>
+    repository: Partial<Omit<Repository, "id" | "class" | "subClass" | "capabilities">>,
+    options?: ConditionalRequestOptions
   ): Promise<BentleyAPIResponse<SingleRepositoryResponse>> {
     const url = `${this._baseUrl}/${iTwinId}/repositories/${repositoryId}`;
-    return this.sendGenericAPIRequest(accessToken, "PATCH", url, repository);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "PATCH",
+      url,
+      repository,
+      this.getPreconditionHeaders(options?.ifMatch),
+      false,
+      options
+    );
   }
 
   /**
@@ -512,6 +956,7 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * @param iTwinId - The id of the iTwin that contains the repository
    * @param repositoryId - The id of the repository to add the resource to
    * @param repositoryResource - The repository resource to create with required id and displayName properties
+   * @param options - Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with the created repository resource details
    *
    * @beta
@@ -520,14 +965,18 @@ export class ITwinsClient extends BaseITwinsApiClient {
     accessToken: AccessToken,
     iTwinId: string,
     repositoryId: string,
-    repositoryResource: Pick<Repository, "id" | "displayName">
+    repositoryResource: Pick<Repository, "id" | "displayName">,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<PostRepositoryResourceResponse>> {
     const url = `${this._baseUrl}/${iTwinId}/repositories/${repositoryId}/resources`;
     return this.sendGenericAPIRequest(
       accessToken,
       "POST",
       url,
-      repositoryResource
+      repositoryResource,
+      undefined,
+      false,
+      options
     );
   }
 
@@ -537,6 +986,7 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * @param iTwinId - The id of the iTwin that contains the repository
     * @param repositoryId - The id of the repository that contains the resource
    * @param resourceId - The id repository resource to delete
+   * @param options - Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves when the iTwin is successfully deleted
    *
    * @beta
@@ -545,13 +995,18 @@ export class ITwinsClient extends BaseITwinsApiClient {
     accessToken: AccessToken,
     iTwinId: string,
     repositoryId: string,
-    resourceId: string
+    resourceId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<undefined>> {
     const url = `${this._baseUrl}/${iTwinId}/repositories/${repositoryId}/resources/${resourceId}`;
     return this.sendGenericAPIRequest(
       accessToken,
       "DELETE",
-      url
+      url,
+      undefined,
+      undefined,
+      false,
+      options
     );
   }
 
@@ -566,6 +1021,7 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * @param repositoryId - The id of the repository containing the resource
    * @param resourceId - The unique id of the repository resource to retrieve
    * @param resultMode - Optional result mode controlling the level of detail returned (minimal or representation)
+   * @param options - Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with the repository resource details in the requested format
    * @example
    * ```typescript
@@ -585,7 +1041,8 @@ export class ITwinsClient extends BaseITwinsApiClient {
     iTwinId: string,
     repositoryId: string,
     resourceId: string,
-    resultMode?: T
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<
     BentleyAPIResponse<T extends "representation"
       ? GetRepositoryResourceRepresentationResponse
@@ -599,7 +1056,8 @@ export class ITwinsClient extends BaseITwinsApiClient {
       url,
       undefined,
       headers,
-      true
+      true,
+      options
     );
   }
 
@@ -614,6 +1072,7 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * @param repositoryId - The id of the repository containing the resources
    * @param args - Optional query parameters for search, pagination (skip, top)
    * @param resultMode - Optional result mode controlling the level of detail returned (minimal or representation)
+   * @param options - Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with an array of repository resources in the requested format
    * @example
    * ```typescript
@@ -628,21 +1087,25 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * ```
    * @beta
    */
-  public async getRepositoryResources<T extends ResultMode = "minimal">(
+  public async getRepositoryResources<
+    T extends ResultMode = "minimal",
+    A extends ODataListingQueryParams = ODataListingQueryParams
+  >(
     accessToken: AccessToken,
     iTwinId: string,
     repositoryId: string,
-    args?: Pick<ODataQueryParams, "search" | "skip" | "top">,
-    resultMode?: T
+    args?: A,
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<
-    BentleyAPIResponse<T extends "representation"
+    BentleyAPIResponse<WithTotalCount<T extends "representation"
       ? GetMultiRepositoryResourceRepresentationResponse
-      : GetMultiRepositoryResourceMinimalResponse>
+      : GetMultiRepositoryResourceMinimalResponse, A>>
   > {
     const headers = this.getResultModeHeaders(resultMode);
     const url = `${
       this._baseUrl
-    }/${iTwinId}/repositories/${repositoryId}/resources?${this.getQueryStringArg(
+    }/${iTwinId}/repositories/${repositoryId}/resources?${this.getQueryStringArg<ODataListingQueryParams>(
       ITwinsClient.ODataParamMapping,
       args
     )}`;
@@ -652,7 +1115,85 @@ export class ITwinsClient extends BaseITwinsApiClient {
       url,
       undefined,
       headers,
-      true
+      true,
+      options
+    );
+  }
+
+  /**
+   * Iterate over the resources of a repository, following the `_links.next` link of every page.
+   * Next links to federated repository hosts must satisfy the trusted host policy.
+   *
+   * @param accessToken - The client access token string for authorization
+   * @param iTwinId - The id of the iTwin that contains the repository
+   * @param repositoryId - The id of the repository containing the resources
+   * @param args - Optional query parameters for the first page, `top` sets the page size
+   * @param resultMode - Optional result mode controlling the level of detail returned (minimal or representation)
+   * @param options - Optional request options, such as an abort signal or a timeout applied to every page request, and a `maxItems` cap
+   * @returns Async iterable over the resources of every page
+   * @throws BentleyAPIResponseError when a page request fails, is aborted, or a next link is rejected
+   * @beta
+   */
+  public async *iterateRepositoryResources<T extends ResultMode = "minimal">(
+    accessToken: AccessToken,
+    iTwinId: string,
+    repositoryId: string,
+    args?: ODataListingQueryParams,
+    resultMode?: T,
+    options?: PaginationOptions
+  ): AsyncIterable<
+    T extends "representation"
+    ? GetMultiRepositoryResourceRepresentationResponse["resources"][number]
+    : GetMultiRepositoryResourceMinimalResponse["resources"][number]
+  > {
+    yield* this.iterateItems<
+      T extends "representation"
+        ? GetMultiRepositoryResourceRepresentationResponse["resources"][number]
+        : GetMultiRepositoryResourceMinimalResponse["resources"][number]
+    >(
+      this.iterateResourcePages<T>(
+        accessToken,
+        async () => this.getRepositoryResources(accessToken, iTwinId, repositoryId, args, resultMode, options),
+        resultMode,
+        options
+      ),
+      "resources"
+    );
+  }
+
+  /**
+   * Get the resources of a repository from every page, following the `_links.next` link of every page.
+   * Next links to federated repository hosts must satisfy the trusted host policy.
+   *
+   * @param accessToken - The client access token string for authorization
+   * @param iTwinId - The id of the iTwin that contains the repository
+   * @param repositoryId - The id of the repository containing the resources
+   * @param args - Optional query parameters for the first page, `top` sets the page size
+   * @param resultMode - Optional result mode controlling the level of detail returned (minimal or representation)
+   * @param options - Optional request options, such as an abort signal or a timeout applied to every page request, and a `maxItems` cap
+   * @returns Promise that resolves with the resources of every page, or with the response of the first failed page request
+   * @beta
+   */
+  public async getAllRepositoryResources<T extends ResultMode = "minimal">(
+    accessToken: AccessToken,
+    iTwinId: string,
+    repositoryId: string,
+    args?: ODataListingQueryParams,
+    resultMode?: T,
+    options?: PaginationOptions
+  ): Promise<
+    BentleyAPIResponse<AllPagesResponse<T extends "representation"
+      ? GetMultiRepositoryResourceRepresentationResponse
+      : GetMultiRepositoryResourceMinimalResponse>>
+  > {
+    return this.collectPages(
+      this.iterateResourcePages<T>(
+        accessToken,
+        async () => this.getRepositoryResources(accessToken, iTwinId, repositoryId, args, resultMode, options),
+        resultMode,
+        options
+      ),
+      "resources"
     );
   }
 
@@ -666,6 +1207,7 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * @param uri - The capability URI from repository.capabilities.resources.uri
    * @param args - Optional OData query parameters for filtering and pagination
    * @param resultMode - Optional result mode controlling the level of detail returned (minimal or representation)
+   * @param options - Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with the list of repository resources in the requested format
    * @example
    * ```typescript
@@ -688,19 +1230,23 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * ```
    * @beta
    */
-  public async getRepositoryResourcesByUri<T extends ResultMode = "minimal">(
+  public async getRepositoryResourcesByUri<
+    T extends ResultMode = "minimal",
+    A extends ODataListingQueryParams = ODataListingQueryParams
+  >(
     accessToken: AccessToken,
     uri: string,
-    args?: Pick<ODataQueryParams, "search" | "skip" | "top">,
-    resultMode?: T
+    args?: A,
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<
-    BentleyAPIResponse<T extends "representation"
+    BentleyAPIResponse<WithTotalCount<T extends "representation"
       ? GetMultiRepositoryResourceRepresentationResponse
-      : GetMultiRepositoryResourceMinimalResponse>
+      : GetMultiRepositoryResourceMinimalResponse, A>>
   > {
     const headers = this.getResultModeHeaders(resultMode);
     const urlWithQuery = args
-      ? `${uri}?${this.getQueryStringArg(ITwinsClient.ODataParamMapping, args)}`
+      ? `${uri}?${this.getQueryStringArg<ODataListingQueryParams>(ITwinsClient.ODataParamMapping, args)}`
       : uri;
 
     return this.sendGenericAPIRequest(
@@ -709,7 +1255,81 @@ export class ITwinsClient extends BaseITwinsApiClient {
       urlWithQuery,
       undefined,
       headers,
-      true
+      true,
+      options
+    );
+  }
+
+  /**
+   * Iterate over the resources of a repository using a capability URI, following the `_links.next` link of every page.
+   * Next links to federated repository hosts must satisfy the trusted host policy.
+   *
+   * @param accessToken - The client access token string for authorization
+   * @param uri - The capability URI from repository.capabilities.resources.uri
+   * @param args - Optional query parameters for the first page, `top` sets the page size
+   * @param resultMode - Optional result mode controlling the level of detail returned (minimal or representation)
+   * @param options - Optional request options, such as an abort signal or a timeout applied to every page request, and a `maxItems` cap
+   * @returns Async iterable over the resources of every page
+   * @throws BentleyAPIResponseError when a page request fails, is aborted, or a next link is rejected
+   * @beta
+   */
+  public async *iterateRepositoryResourcesByUri<T extends ResultMode = "minimal">(
+    accessToken: AccessToken,
+    uri: string,
+    args?: ODataListingQueryParams,
+    resultMode?: T,
+    options?: PaginationOptions
+  ): AsyncIterable<
+    T extends "representation"
+    ? GetMultiRepositoryResourceRepresentationResponse["resources"][number]
+    : GetMultiRepositoryResourceMinimalResponse["resources"][number]
+  > {
+    yield* this.iterateItems<
+      T extends "representation"
+        ? GetMultiRepositoryResourceRepresentationResponse["resources"][number]
+        : GetMultiRepositoryResourceMinimalResponse["resources"][number]
+    >(
+      this.iterateResourcePages<T>(
+        accessToken,
+        async () => this.getRepositoryResourcesByUri(accessToken, uri, args, resultMode, options),
+        resultMode,
+        options
+      ),
+      "resources"
+    );
+  }
+
+  /**
+   * Get the resources of a repository using a capability URI from every page, following the `_links.next` link of every page.
+   * Next links to federated repository hosts must satisfy the trusted host policy.
+   *
+   * @param accessToken - The client access token string for authorization
+   * @param uri - The capability URI from repository.capabilities.resources.uri
+   * @param args - Optional query parameters for the first page, `top` sets the page size
+   * @param resultMode - Optional result mode controlling the level of detail returned (minimal or representation)
+   * @param options - Optional request options, such as an abort signal or a timeout applied to every page request, and a `maxItems` cap
+   * @returns Promise that resolves with the resources of every page, or with the response of the first failed page request
+   * @beta
+   */
+  public async getAllRepositoryResourcesByUri<T extends ResultMode = "minimal">(
+    accessToken: AccessToken,
+    uri: string,
+    args?: ODataListingQueryParams,
+    resultMode?: T,
+    options?: PaginationOptions
+  ): Promise<
+    BentleyAPIResponse<AllPagesResponse<T extends "representation"
+      ? GetMultiRepositoryResourceRepresentationResponse
+      : GetMultiRepositoryResourceMinimalResponse>>
+  > {
+    return this.collectPages(
+      this.iterateResourcePages<T>(
+        accessToken,
+        async () => this.getRepositoryResourcesByUri(accessToken, uri, args, resultMode, options),
+        resultMode,
+        options
+      ),
+      "resources"
     );
   }
 
@@ -722,6 +1342,7 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * @param accessToken - The client access token string for authorization
    * @param uri - The capability URI from repository.capabilities.resources.uri for a specific resource
    * @param resultMode - Optional result mode controlling the level of detail returned (minimal or representation)
+   * @param options - Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with the repository resource details in the requested format
    * @example
    * ```typescript
@@ -748,7 +1369,8 @@ export class ITwinsClient extends BaseITwinsApiClient {
   public async getRepositoryResourceByUri<T extends ResultMode = "minimal">(
     accessToken: AccessToken,
     uri: string,
-    resultMode?: T
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<
     BentleyAPIResponse<T extends "representation"
       ? GetRepositoryResourceRepresentationResponse
@@ -761,7 +1383,8 @@ export class ITwinsClient extends BaseITwinsApiClient {
       uri,
       undefined,
       headers,
-      true
+      true,
+      options
     );
   }
 
@@ -782,6 +1405,7 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * @param iTwinId - The iTwin identifier
    * @param repositoryId - The repository identifier
    * @param resourceId - The resource identifier
+   * @param options - Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with graphics metadata including content type, URI, and authentication
    * @example
    * ```typescript
@@ -819,7 +1443,8 @@ export class ITwinsClient extends BaseITwinsApiClient {
     accessToken: AccessToken,
     iTwinId: string,
     repositoryId: string,
-    resourceId: string
+    resourceId: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ResourceGraphicsResponse>> {
     const url = `${this._baseUrl}/${iTwinId}/repositories/${repositoryId}/resources/${resourceId}/graphics`;
     return this.sendGenericAPIRequest(
@@ -828,7 +1453,8 @@ export class ITwinsClient extends BaseITwinsApiClient {
       url,
       undefined,
       undefined,
-      true
+      true,
+      options
     );
   }
 
@@ -844,6 +1470,7 @@ export class ITwinsClient extends BaseITwinsApiClient {
    *
    * @param accessToken - The client access token string for authorization
    * @param uri - The capability URI from resource.capabilities.graphics.uri
+   * @param options - Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with the graphics metadata including authentication and provider information
    * @example
    * ```typescript
@@ -866,16 +1493,26 @@ export class ITwinsClient extends BaseITwinsApiClient {
    */
   public async getResourceGraphicsByUri(
     accessToken: AccessToken,
-    uri: string
+    uri: string,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ResourceGraphicsResponse>> {
-    return this.sendGenericAPIRequest(accessToken, "GET", uri, undefined, undefined, true);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "GET",
+      uri,
+      undefined,
+      undefined,
+      true,
+      options
+    );
   }
 
   /** Get a specific iTwin by ID
    * @param accessToken The client access token string
    * @param iTwinId The id of the iTwin
    * @param resultMode (Optional) iTwin result mode: minimal or representation
-   * @returns Promise that resolves with the iTwin details
+   * @param options Optional request options such as an abort signal or a timeout
+   * @returns Promise that resolves with the iTwin details, and its version in `etag` when the server provides one
    * @example
    * ```typescript
    * // Returns ITwinMinimalResponse
@@ -891,7 +1528,8 @@ export class ITwinsClient extends BaseITwinsApiClient {
   public async getITwin<T extends ResultMode = "minimal">(
     accessToken: AccessToken,
     iTwinId: string,
-    resultMode?: T
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<T extends "representation"
     ? ITwinRepresentationResponse
     : ITwinMinimalResponse>> {
@@ -902,13 +1540,16 @@ export class ITwinsClient extends BaseITwinsApiClient {
       "GET",
       url,
       undefined,
-      headers
+      headers,
+      false,
+      options
     );
   }
 
   /** Get iTwins accessible to the user with optional filtering and pagination
    * @param accessToken The client access token string
    * @param arg Optional query arguments for paging, searching, filtering, ordering, and field selection
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with an array of iTwins, may be empty
    * @example
    * ```typescript
@@ -920,20 +1561,24 @@ export class ITwinsClient extends BaseITwinsApiClient {
    *
    * // Defaults to minimal when no resultMode specified
    * const defaultResult = await client.getITwins(token);
+   *
+   * // Returns MultiITwinSelectResponse<"id" | "displayName" | "status">
+   * const selected = await client.getITwins(token, { select: ["id", "displayName", "status"] });
    * ```
    */
-  public async getITwins<T extends ITwinsGetQueryArg = ITwinsGetQueryArg>(
+  public async getITwins<const T extends ITwinsGetQueryArg = ITwinsGetQueryArg>(
     accessToken: AccessToken,
-    arg?: T
-  ): Promise<
-    BentleyAPIResponse<T["resultMode"] extends "representation"
-      ? MultiITwinRepresentationResponse
-      : MultiITwinMinimalResponse>
-  > {
+    arg?: T,
+    options?: RequestOptions
+  ): Promise<BentleyAPIResponse<ITwinsQueryResponse<T>>> {
+    const invalidResponse = this.validateQueryArg(arg, true);
+    if (invalidResponse) {
+      return invalidResponse;
+    }
     const headers = this.getHeaders(arg);
     const url = `${this._baseUrl}/?${this.getQueryStringArg(
       ITwinsClient.ITwinsGetQueryParamMapping,
-      arg ?? {}
+      this.lowerMultiValueArgs(arg ?? {})
     )}`;
 
     return this.sendGenericAPIRequest(
@@ -941,60 +1586,363 @@ export class ITwinsClient extends BaseITwinsApiClient {
       "GET",
       url,
       undefined,
-      headers
+      headers,
+      false,
+      options
+    );
+  }
+
+  /** Iterate over the iTwins accessible to the user, following the `_links.next` link of every page
+   * @param accessToken The client access token string
+   * @param arg Optional query arguments for the first page; `top` sets the page size
+   * @param options Optional request options, such as an abort signal or a timeout applied to every page request, and a `maxItems` cap
+   * @returns Async iterable over the iTwins of every page
+   * @throws BentleyAPIResponseError when a page request fails or is aborted
+   * @example
+   * ```typescript
+   * for await (const iTwin of client.iterateITwins(token, { resultMode: "representation", top: 100 }, { maxItems: 500 })) {
+   *   console.log(iTwin.displayName, iTwin.createdDateTime);
+   * }
+   * ```
+   */
+  public async *iterateITwins<const T extends ITwinsGetQueryArg = ITwinsGetQueryArg>(
+    accessToken: AccessToken,
+    arg?: T,
+    options?: PaginationOptions
+  ): AsyncIterable<ITwinsQueryItem<T>> {
+    yield* this.iterateItems<ITwinsQueryItem<T>>(this.iteratePages(accessToken, arg, options), "iTwins");
+  }
+
+  /** Iterate over the pages of the iTwins accessible to the user, following the `_links.next` link of every page
+   * @param accessToken The client access token string
+   * @param arg Optional query arguments for the first page; `top` sets the page size
+   * @param options Optional request options, such as an abort signal or a timeout applied to every page request,
+   * and a `maxItems` cap truncating the last page
+   * @returns Async iterable over the successful page responses
+   * @throws BentleyAPIResponseError when a page request fails or is aborted
+   * @example
+   * ```typescript
+   * for await (const page of client.iteratePages(token, { top: 100 })) {
+   *   console.log(`${page.data?.iTwins.length} iTwins, correlation ID ${page.headers?.["x-correlation-id"]}`);
+   * }
+   * ```
+   */
+  public async *iteratePages<const T extends ITwinsGetQueryArg = ITwinsGetQueryArg>(
+    accessToken: AccessToken,
+    arg?: T,
+    options?: PaginationOptions
+  ): AsyncIterable<BentleyAPIResponse<ITwinsQueryResponse<T>>> {
+    yield* this.iterateITwinPages(
+      accessToken,
+      async () => this.getITwins(accessToken, arg, options),
+      arg,
+      options
+    );
+  }
+
+  /** Get the iTwins with the given IDs, in as few requests as the URL length limit allows.
+   * The IDs are split into `$filter=id in (...)` queries sent with bounded concurrency.
+   * Inactive iTwins are included, so that only IDs that do not exist or are not accessible are reported as not found.
+   * @param accessToken The client access token string
+   * @param ids IDs of the iTwins to get, duplicates in any case are requested once
+   * @param resultMode (Optional) result mode controlling the level of detail returned (minimal or representation)
+   * @param options (Optional) request options, such as an abort signal or a timeout applied to every request,
+   * the number of requests in flight at once, the maximum URL length and the query scope
+   * @returns Promise that resolves with the iTwins found keyed by requested ID and the IDs not found,
+   * or with the response of the first failed request
+   * @example
+   * ```typescript
+   * const response = await client.getITwinsByIds(token, ids, "minimal", { concurrency: 2 });
+   * for (const id of ids) {
+   *   console.log(id, response.data?.iTwins.get(id)?.displayName ?? "(not accessible)");
+   * }
+   * ```
+   */
+  public async getITwinsByIds<T extends ResultMode = "minimal">(
+    accessToken: AccessToken,
+    ids: ReadonlyArray<string>,
+    resultMode?: T,
+    options?: BatchRequestOptions
+  ): Promise<
+    BentleyAPIResponse<ITwinsByIdsResponse<T extends "representation" ? ITwinRepresentation : ITwinMinimal>>
+  > {
+    type ITwin = T extends "representation" ? ITwinRepresentation : ITwinMinimal;
+    const uniqueIds = [...new Set(ids)];
+    const notFound = uniqueIds.filter((id) => !isGuid(id));
+    const chunks = chunkIds(
+      [...new Set(uniqueIds.filter((id) => isGuid(id)).map((id) => id.toLowerCase()))],
+      `${this._baseUrl}/?includeInactive=true&$top=${maxTop}&$filter=`.length,
+      options?.maxUrlLength ?? 2000,
+      maxTop
     );
+
+    const { data: pages, failure } = await mapConcurrently(
+      chunks,
+      options?.concurrency ?? 4,
+      async (chunk) =>
+        this.getITwins(
+          accessToken,
+          {
+            filter: ITwinFilter.in("id", chunk),
+            top: chunk.length,
+            includeInactive: true,
+            resultMode,
+            queryScope: options?.queryScope,
+          },
+          options
+        )
+    );
+    if (failure) {
+      return failure;
+    }
+
+    const found = new Map<string, ITwin>();
+    for (const iTwin of pages.flatMap((page) => page.iTwins)) {
+      found.set(iTwin.id.toLowerCase(), iTwin as ITwin);
+    }
+
+    const iTwins = new Map<string, ITwin>();
+    for (const id of uniqueIds) {
+      const iTwin = found.get(id.toLowerCase());
+      if (iTwin) {
+        iTwins.set(id, iTwin);
+      } else if (isGuid(id)) {
+        notFound.push(id);
+      }
+    }
+    return { status: 200, data: { iTwins, notFound } };
+  }
+
+  /** Get the children of an iTwin, the iTwins whose `parentId` is its id, from every page
+   * @param accessToken The client access token string
+   * @param iTwinId The id of the parent iTwin
+   * @param arg (Optional) query arguments for the first page; `top` sets the page size
+   * @param options (Optional) request options, such as an abort signal or a timeout applied to every page request, and a `maxItems` cap
+   * @returns Promise that resolves with the children in representation mode, or with the response of the first failed page request
+   */
+  public async getChildren(
+    accessToken: AccessToken,
+    iTwinId: string,
+    arg?: Omit<ITwinsQueryArg, "parentId" | "resultMode">,
+    options?: PaginationOptions
+  ): Promise<BentleyAPIResponse<AllPagesResponse<MultiITwinRepresentationResponse>>> {
+    return this.collectPages(
+      this.iteratePages(accessToken, { ...arg, parentId: iTwinId, resultMode: "representation" }, options),
+      "iTwins"
+    );
+  }
+
+  /** Get the descendants of an iTwin, walking down its hierarchy breadth-first, one request per iTwin and page
+   * @param accessToken The client access token string
+   * @param iTwinId The id of the iTwin at the top of the walk, not part of the result
+   * @param options (Optional) request options, such as an abort signal or a timeout applied to every request,
+   * the number of levels to walk down, the number of requests in flight at once and the query scope
+   * @returns Promise that resolves with the tree of descendants, whose roots are the children of the iTwin at depth 1,
+   * or with the response of the first failed request. Inactive iTwins are included, as `getAncestors` walks through them too.
+   * iTwins reached twice are reported as cycles and not walked again.
+   * @example
+   * ```typescript
+   * const response = await client.getDescendants(token, programId, { maxDepth: 2 });
+   * for (const node of response.data?.nodes ?? []) {
+   *   console.log(`${"  ".repeat(node.depth)}${node.iTwin.displayName}`);
+   * }
+   * ```
+   */
+  public async getDescendants(
+    accessToken: AccessToken,
+    iTwinId: string,
+    options?: HierarchyOptions
+  ): Promise<BentleyAPIResponse<ITwinHierarchy>> {
+    const maxDepth = options?.maxDepth ?? Infinity;
+    const roots: ITwinHierarchyNode[] = [];
+    const nodes: ITwinHierarchyNode[] = [];
+    const issues: ITwinHierarchyIssue[] = [];
+    const visited = new Set<string>([iTwinId]);
+    let level: Array<{ id: string; children: ITwinHierarchyNode[] }> = [{ id: iTwinId, children: roots }];
+
+    for (let depth = 1; depth <= maxDepth && level.length > 0; depth++) {
+      const { data: pages, failure } = await mapConcurrently(
+        level,
+        options?.concurrency ?? 4,
+        async (parent) =>
+          this.getChildren(accessToken, parent.id, { includeInactive: true, queryScope: options?.queryScope }, options)
+      );
+      if (failure) {
+        return failure;
+      }
+
+      const nextLevel: typeof level = [];
+      level.forEach((parent, index) => {
+        for (const child of pages[index].iTwins) {
+          if (visited.has(child.id)) {
+            issues.push(createCycleIssue(child.id, parent.id));
+            continue;
+          }
+          visited.add(child.id);
+          const node: ITwinHierarchyNode = { iTwin: child, depth, children: [] };
+          parent.children.push(node);
+          nodes.push(node);
+          nextLevel.push({ id: child.id, children: node.children });
+        }
+      });
+      level = nextLevel;
+    }
+
+    return { status: 200, data: { roots, nodes, issues } };
+  }
+
+  /** Get the ancestors of an iTwin, walking up its `parentId` links until the account or an iTwin without parent
+   * @param accessToken The client access token string
+   * @param iTwinId The id of the iTwin at the bottom of the walk, not part of the result
+   * @param options (Optional) request options such as an abort signal or a timeout applied to every request
+   * @returns Promise that resolves with the ancestors, the parent first, or with the response of the first failed request.
+   * A parent that does not exist or is not accessible, or a parent already walked, stops the walk and is reported as an issue.
+   */
+  public async getAncestors(
+    accessToken: AccessToken,
+    iTwinId: string,
+    options?: RequestOptions
+  ): Promise<BentleyAPIResponse<ITwinAncestorsResponse>> {
+    const response = await this.getITwin(accessToken, iTwinId, "representation", options);
+    if (response.error || !response.data) {
+      return response as BentleyAPIResponse<never>;
+    }
+
+    const ancestors: ITwinRepresentation[] = [];
+    const issues: ITwinHierarchyIssue[] = [];
+    const visited = new Set<string>([iTwinId]);
+    let current = response.data.iTwin;
+    while (current.parentId && current.subClass !== "Account") {
+      const parentId = current.parentId;
+      if (visited.has(parentId)) {
+        issues.push(createCycleIssue(current.id, parentId));
+        break;
+      }
+      visited.add(parentId);
+
+      const parentResponse = await this.getITwin(accessToken, parentId, "representation", options);
+      if (parentResponse.status === 403 || parentResponse.status === 404) {
+        issues.push(createMissingParentIssue(current.id, parentId));
+        break;
+      }
+      if (parentResponse.error || !parentResponse.data) {
+        return parentResponse as BentleyAPIResponse<never>;
+      }
+      current = parentResponse.data.iTwin;
+      ancestors.push(current);
+    }
+
+    return { status: 200, data: { ancestors, issues } };
+  }
+
+  /** Arrange iTwins into a tree from their `parentId` links, without sending requests
+   * @param iTwins iTwins in representation mode, e.g. collected with `getAllFavoritesITwins` or `getDescendants`
+   * @returns The tree, whose roots are the iTwins without parent in the list at depth 0, and the inconsistencies found:
+   * iTwins whose parent is not in the list are roots reported as missing parents,
+   * and cycles are broken at the iTwin closing them, which becomes a root
+   */
+  public buildHierarchyTree(iTwins: ReadonlyArray<ITwinRepresentation>): ITwinHierarchy {
+    return buildHierarchy(iTwins);
   }
 
   /** Create a new iTwin
    * @param accessToken The client access token string
    * @param iTwin The iTwin data to be created
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with the created iTwin details
    */
   public async createITwin(
     accessToken: AccessToken,
-    iTwin: ItwinCreate
+    iTwin: ItwinCreate,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ITwinRepresentationResponse>> {
     const url = `${this._baseUrl}/`;
-    return this.sendGenericAPIRequest(accessToken, "POST", url, iTwin);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "POST",
+      url,
+      iTwin,
+      undefined,
+      false,
+      options
+    );
   }
 
   /** Update the specified iTwin
    * @param accessToken The client access token string
    * @param iTwinId The id of the iTwin to update
    * @param iTwin The iTwin data to be updated (partial update supported)
-   * @returns Promise that resolves with the updated iTwin details
+   * @param options Optional request options such as an abort signal, a timeout or an `ifMatch` ETag precondition
+   * @returns Promise that resolves with the updated iTwin details, or a `PreconditionFailed` error if `ifMatch` no longer matches
+   * @example
+   * ```typescript
+   * const current = await client.getITwin(token, iTwinId, "representation");
+   * const updated = await client.updateItwin(token, iTwinId, { displayName: "New name" }, { ifMatch: current.etag });
+   * if (isPreconditionFailedError(updated.error)) {
+   *   // Someone else modified the iTwin, reload it before retrying
+   * }
+   * ```
    */
   public async updateItwin(
     accessToken: AccessToken,
     iTwinId: string,
-    iTwin: ItwinUpdate
+    iTwin: ItwinUpdate,
+    options?: ConditionalRequestOptions
   ): Promise<BentleyAPIResponse<ITwinRepresentationResponse>> {
     const url = `${this._baseUrl}/${iTwinId}`;
-    return this.sendGenericAPIRequest(accessToken, "PATCH", url, iTwin);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "PATCH",
+      url,
+      iTwin,
+      this.getPreconditionHeaders(options?.ifMatch),
+      false,
+      options
+    );
   }
 
   /** Delete the specified iTwin
    * @param accessToken The client access token string
    * @param iTwinId The id of the iTwin to delete
-   * @returns Promise that resolves when the iTwin is successfully deleted
+   * @param options Optional request options such as an abort signal, a timeout or an `ifMatch` ETag precondition
+   * @returns Promise that resolves when the iTwin is successfully deleted, or with a `PreconditionFailed` error if `ifMatch` no longer matches
    */
   public async deleteItwin(
     accessToken: AccessToken,
-    iTwinId: string
+    iTwinId: string,
+    options?: ConditionalRequestOptions
   ): Promise<BentleyAPIResponse<undefined>> {
     const url = `${this._baseUrl}/${iTwinId}`;
-    return this.sendGenericAPIRequest(accessToken, "DELETE", url);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "DELETE",
+      url,
+      undefined,
+      this.getPreconditionHeaders(options?.ifMatch),
+      false,
+      options
+    );
   }
 
   /** Get the primary account accessible to the user
    * @param accessToken The client access token string
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with the primary account details
    */
   public async getPrimaryAccount(
-    accessToken: AccessToken
+    accessToken: AccessToken,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<ITwinMinimalResponse>> {
     const url = `${this._baseUrl}/myprimaryaccount`;
-    return this.sendGenericAPIRequest(accessToken, "GET", url, undefined);
+    return this.sendGenericAPIRequest(
+      accessToken,
+      "GET",
+      url,
+      undefined,
+      undefined,
+      false,
+      options
+    );
   }
 
   /**
@@ -1002,6 +1950,7 @@ export class ITwinsClient extends BaseITwinsApiClient {
    * @param accessToken The client access token string
    * @param iTwinId The id of the iTwin
    * @param resultMode (Optional) Result mode: minimal or representation
+   * @param options Optional request options such as an abort signal or a timeout
    * @returns Promise that resolves with the account details
    * @example
    * ```typescript
@@ -1018,7 +1967,8 @@ export class ITwinsClient extends BaseITwinsApiClient {
   public async getITwinAccount<T extends ResultMode = "minimal">(
     accessToken: AccessToken,
     iTwinId: string,
-    resultMode?: T
+    resultMode?: T,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<T extends "representation"
     ? ITwinRepresentationResponse
     : ITwinMinimalResponse>> {
@@ -1029,10 +1979,205 @@ export class ITwinsClient extends BaseITwinsApiClient {
       "GET",
       url,
       undefined,
-      headers
+      headers,
+      false,
+      options
     );
   }
 
+  /**
+   * Iterate over the pages of an iTwins listing, truncated to the `maxItems` option
+   * @param accessToken The client access token string
+   * @param firstPage Requests the first page
+   * @param arg (Optional) iTwin query arguments, whose headers are sent with every following page request
+   * @param options (Optional) request and pagination options
+   * @returns Async iterable over the successful page responses
+   * @protected
+   */
+  protected iterateITwinPages<TPage>(
+    accessToken: AccessToken,
+    firstPage: () => Promise<BentleyAPIResponse<TPage>>,
+    arg?: ITwinsQueryArg,
+    options?: PaginationOptions
+  ): AsyncGenerator<BentleyAPIResponse<TPage> & { data: TPage }> {
+    return this.limitPages(
+      this.iterateLinkedPages(accessToken, firstPage, this.getHeaders(arg), options),
+      "iTwins",
+      options?.maxItems
+    );
+  }
+
+  /**
+   * Iterate over the pages of a repository resources listing, truncated to the `maxItems` option.
+   * Following pages may be redirected, like the first page.
+   * @param accessToken The client access token string
+   * @param firstPage Requests the first page
+   * @param resultMode (Optional) result mode sent with every following page request
+   * @param options (Optional) request and pagination options
+   * @returns Async iterable over the successful page responses
+   * @protected
+   */
+  protected iterateResourcePages<T extends ResultMode>(
+    accessToken: AccessToken,
+    firstPage: () => Promise<BentleyAPIResponse<T extends "representation"
+        ? GetMultiRepositoryResourceRepresentationResponse
+        : GetMultiRepositoryResourceMinimalResponse>>,
+    resultMode?: T,
+    options?: PaginationOptions
+  ): AsyncGenerator<
+    BentleyAPIResponse<T extends "representation"
+        ? GetMultiRepositoryResourceRepresentationResponse
+        : GetMultiRepositoryResourceMinimalResponse> & {
+      data: T extends "representation"
+        ? GetMultiRepositoryResourceRepresentationResponse
+        : GetMultiRepositoryResourceMinimalResponse;
+    }
+  > {
+    return this.limitPages(
+      this.iterateLinkedPages(
+        accessToken,
+        firstPage,
+        this.getResultModeHeaders(resultMode),
+        options,
+        true
+      ),
+      "resources",
+      options?.maxItems
+    );
+  }
+
+  /**
+   * Stop a sequence of pages once it returned a maximum number of items, truncating the last page
+   * @param pages Successful page responses
+   * @param itemsKey Property of a page holding its items
+   * @param maxItems (Optional) maximum number of items, unlimited when omitted
+   * @returns Async iterable over the pages, the last one truncated when needed
+   */
+  private async *limitPages<TPage>(
+    pages: AsyncIterable<BentleyAPIResponse<TPage> & { data: TPage }>,
+    itemsKey: string,
+    maxItems: number = Infinity
+  ): AsyncGenerator<BentleyAPIResponse<TPage> & { data: TPage }> {
+    let remaining = maxItems;
+    if (remaining <= 0) {
+      return;
+    }
+
+    for await (const page of pages) {
+      const items = getPageItems(page.data, itemsKey);
+      const returnedItems = items.slice(0, remaining);
+      remaining -= returnedItems.length;
+      yield returnedItems.length < items.length
+        ? { ...page, data: { ...page.data, [itemsKey]: returnedItems } }
+        : page;
+      if (remaining <= 0 || items.length === 0) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Iterate over the items of a sequence of pages
+   * @param pages Page responses
+   * @param itemsKey Property of a page holding its items
+   * @returns Async iterable over the items of every page
+   */
+  private async *iterateItems<TItem>(
+    pages: AsyncIterable<BentleyAPIResponse<unknown>>,
+    itemsKey: string
+  ): AsyncGenerator<TItem> {
+    for await (const page of pages) {
+      yield* getPageItems(page.data, itemsKey) as TItem[];
+    }
+  }
+
+  /**
+   * Collect the items of a sequence of pages into a single response
+   * @param pages Successful page responses
+   * @param itemsKey Property of a page holding its items
+   * @returns The last page response holding the items of every page, or the response of the first failed page request
+   */
+  private async collectPages<TPage>(
+    pages: AsyncIterable<BentleyAPIResponse<TPage>>,
+    itemsKey: string
+  ): Promise<BentleyAPIResponse<AllPagesResponse<TPage>>> {
+    const items: unknown[] = [];
+    let lastPage: BentleyAPIResponse<TPage> | undefined;
+    try {
+      for await (const page of pages) {
+        items.push(...getPageItems(page.data, itemsKey));
+        lastPage = page;
+      }
+    } catch (error) {
+      if (error instanceof BentleyAPIResponseError) {
+        return error.response as BentleyAPIResponse<never>;
+      }
+      throw error;
+    }
+
+    return {
+      ...lastPage,
+      status: lastPage?.status ?? 200,
+      data: { [itemsKey]: items } as unknown as AllPagesResponse<TPage>,
+    };
+  }
+
+  /**
+   * Validate iTwin query arguments before sending a request
+   * @param arg (Optional) iTwin query arguments
+   * @param acceptsLists Whether the endpoint supports `$filter`, to send `subClass`, `status` and `type` lists of several values
+   * @returns A 400 `InvalidQueryArgument` error response listing every offending argument, or undefined when all are valid
+   * @protected
+   */
+  protected validateQueryArg(arg?: ITwinsQueryArg, acceptsLists: boolean = false): BentleyAPIResponse<never> | undefined {
+    const details = validateITwinsQueryArg(arg, acceptsLists);
+    if (details.length === 0) {
+      return undefined;
+    }
+    return {
+      status: 400,
+      error: {
+        code: "InvalidQueryArgument",
+        message: `Invalid query arguments: ${details.map((detail) => detail.target).join(", ")}.`,
+        details,
+        category: "validation",
+      },
+    };
+  }
+
+  /**
+   * Lower the `subClass`, `status` and `type` lists of several values to an OData `in` filter,
+   * combined with the `filter` argument, since the iTwins API accepts a single value for these parameters
+   * @param arg iTwin query arguments
+   * @returns The query arguments to serialize, the given ones when nothing needs lowering
+   * @protected
+   */
+  protected lowerMultiValueArgs(arg: ITwinsGetQueryArg): ITwinsGetQueryArg {
+    const lowered: ITwinsGetQueryArg = { ...arg };
+    const filters: ITwinFilter[] = [];
+    if (typeof arg.subClass === "object" && arg.subClass.length > 1) {
+      filters.push(ITwinFilter.in("subClass", arg.subClass));
+      lowered.subClass = undefined;
+    }
+    if (typeof arg.status === "object" && arg.status.length > 1) {
+      filters.push(ITwinFilter.in("status", arg.status));
+      lowered.status = undefined;
+    }
+    if (typeof arg.type === "object" && arg.type.length > 1) {
+      filters.push(ITwinFilter.in("type", arg.type));
+      lowered.type = undefined;
+    }
+    if (filters.length === 0) {
+      return arg;
+    }
+
+    if (arg.filter !== undefined) {
+      filters.unshift(typeof arg.filter === "string" ? ITwinFilter.expression(arg.filter) : arg.filter);
+    }
+    lowered.filter = ITwinFilter.and(filters[0], ...filters.slice(1));
+    return lowered;
+  }
+
   /**
    * Format headers from query arguments including query scope and result mode
    * @param arg (Optional) iTwin query arguments
@@ -1060,6 +2205,16 @@ export class ITwinsClient extends BaseITwinsApiClient {
     };
   }
 
+  /**
+   * Format an ETag precondition into a headers entry
+   * @param ifMatch (Optional) ETag of the entity version a change applies to
+   * @returns Headers object with the if-match header, empty when no precondition is given
+   * @protected
+   */
+  protected getPreconditionHeaders(ifMatch?: string): Record<string, string> {
+    return ifMatch ? { "if-match": ifMatch } : {};
+  }
+
   /**
    * Format query scope parameter into a headers entry
    * @param queryScope (Optional) iTwin query scope, defaults to "memberOfItwin"
@@ -14,12 +14,16 @@
 
 // Main client exports
 export * from "./iTwinsClient.js";
+export * from "./ITwinFilter.js";
 
 // Type exports
+export * from "./types/ClientOptions.js";
 export * from "./types/CommonApiTypes.js";
 export * from "./types/ITwin.js";
 export * from "./types/Repository.js";
 export * from "./types/ITwinExport.js";
+export * from "./types/ITwinHierarchy.js";
 export * from "./types/ITwinImage.js";
 export * from "./types/ITwinsQueryArgs.js";
 export * from "./types/links.js";
+export * from "./types/Middleware.js";
@@ -38,7 +38,7 @@ test.describe("Browser redirect handling", () => {
             status: 0,
             ok: false,
             headers: new Headers(),
-            json: async () => {
+            text: async () => {
               throw new Error("opaque redirect");
             },
           } as unknown as Response;
@@ -50,8 +50,8 @@ test.describe("Browser redirect handling", () => {
           ok: true,
           redirected: true,
           url: "https://api.bentley.com/final",
-          headers: new Headers(),
-          json: async () => ({ ok: true }),
+          headers: new Headers({ "content-type": "application/json" }),
+          text: async () => JSON.stringify({ ok: true }),
         } as unknown as Response;
       }) as typeof fetch;
 
@@ -98,7 +98,7 @@ test.describe("Browser redirect handling", () => {
           status: 0,
           ok: false,
           headers: new Headers(),
-          json: async () => {
+          text: async () => {
             throw new Error("opaque redirect");
           },
         } as unknown as Response;
@@ -2,9 +2,11 @@
  * Copyright (c) Bentley Systems, Incorporated. All rights reserved.
  * See LICENSE.md in the project root for license terms and full copyright notice.
  *--------------------------------------------------------------------------------------------*/
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { BaseBentleyAPIClient } from "../../BaseBentleyAPIClient";
-import type { BentleyAPIResponse } from "../../types/CommonApiTypes";
+import type { BentleyAPIClientOptions, CircuitStateChange } from "../../types/ClientOptions";
+import type { BentleyAPIResponse, RequestOptions } from "../../types/CommonApiTypes";
+import { isCircuitOpenError } from "../../types/CommonApiTypes";
 
 /**
  * Test subclass to expose private methods for unit testing
@@ -663,13 +665,14 @@ class ExtendedTestableClient extends BaseBentleyAPIClient {
     return (this as unknown as {
       followRedirect: <TRes, TDat>(
         response: Response,
+        context: { attempts: number },
         token: string,
         method: string,
         data?: TDat,
         headers?: Record<string, string>,
         count?: number
       ) => Promise<BentleyAPIResponse<TRes>>;
-    }).followRedirect<TResponse, TData>(response, accessToken, method, data, headers, redirectCount);
+    }).followRedirect<TResponse, TData>(response, { attempts: 0 }, accessToken, method, data, headers, redirectCount);
   }
 
   /**
@@ -681,7 +684,8 @@ class ExtendedTestableClient extends BaseBentleyAPIClient {
     url: string,
     data?: TData,
     headers?: Record<string, string>,
-    allowRedirects: boolean = false
+    allowRedirects: boolean = false,
+    options?: RequestOptions
   ): Promise<BentleyAPIResponse<TResponse>> {
     return (this as unknown as {
       sendGenericAPIRequest: <TRes, TDat>(
@@ -690,7 +694,8 @@ class ExtendedTestableClient extends BaseBentleyAPIClient {
         url: string,
         data?: TDat,
         headers?: Record<string, string>,
-        allowRedirects?: boolean
+        allowRedirects?: boolean,
+        options?: RequestOptions
       ) => Promise<BentleyAPIResponse<TRes>>;
     }).sendGenericAPIRequest<TResponse, TData>(
       accessToken,
@@ -698,7 +703,8 @@ class ExtendedTestableClient extends BaseBentleyAPIClient {
       url,
       data,
       headers,
-      allowRedirects
+      allowRedirects,
+      options
     );
   }
 }
@@ -718,64 +724,190 @@ describe("BaseBentleyAPIClient - processResponse", () => {
     ok: boolean,
     body: any
   ): Response {
-    return {
+    const response = new Response(JSON.stringify(body), {
       status,
-      ok,
-      json: async () => body,
-    } as Response;
+      headers: { "content-type": "application/json" },
+    });
+    expect(response.ok).toBe(ok);
+    return response;
   }
 
   describe("Error Response without valid error structure", () => {
-    it("should throw error when response is not OK and doesn't have valid error format", async () => {
+    it("should return the body when response is not OK and doesn't have valid error format", async () => {
       // Response with invalid error structure (not matching { error: { code, message } })
       const response = createResponse(400, false, { invalidFormat: "test" });
 
-      await expect(client.testProcessResponse(response)).rejects.toThrow(
-        "An error occurred while processing the request"
-      );
+      const result = await client.testProcessResponse(response);
+
+      expect(result.status).toBe(400);
+      expect(result.error!.code).toBe("UnexpectedErrorResponse");
+      expect(result.error!.category).toBe("unexpected-non-json");
+      expect(result.error!.body).toEqual({ invalidFormat: "test" });
     });
 
-    it("should throw error when error is a non-object primitive (number)", async () => {
+    it("should return an unexpected error when error is a non-object primitive (number)", async () => {
       const response = createResponse(500, false, { error: 123 });
 
-      await expect(client.testProcessResponse(response)).rejects.toThrow(
-        "An error occurred while processing the request"
-      );
+      const result = await client.testProcessResponse(response);
+
+      expect(result.status).toBe(500);
+      expect(result.error!.code).toBe("UnexpectedErrorResponse");
     });
 
-    it("should throw error when response has error property but missing code", async () => {
+    it("should return an unexpected error when response has error property but missing code", async () => {
       const response = createResponse(500, false, {
         error: { message: "Error without code" }
       });
 
-      await expect(client.testProcessResponse(response)).rejects.toThrow(
-        "An error occurred while processing the request"
-      );
+      const result = await client.testProcessResponse(response);
+
+      expect(result.status).toBe(500);
+      expect(result.error!.code).toBe("UnexpectedErrorResponse");
     });
 
-    it("should throw error when response has error property but missing message", async () => {
+    it("should return an unexpected error when response has error property but missing message", async () => {
       const response = createResponse(500, false, {
         error: { code: "ErrorCode" }
       });
 
-      await expect(client.testProcessResponse(response)).rejects.toThrow(
-        "An error occurred while processing the request"
-      );
+      const result = await client.testProcessResponse(response);
+
+      expect(result.status).toBe(500);
+      expect(result.error!.code).toBe("UnexpectedErrorResponse");
     });
 
-    it("should throw error when response is not OK with null body", async () => {
+    it("should return an unexpected error when response is not OK with null body", async () => {
       const response = createResponse(500, false, null);
 
-      await expect(client.testProcessResponse(response)).rejects.toThrow(
-        "An error occurred while processing the request"
-      );
+      const result = await client.testProcessResponse(response);
+
+      expect(result.status).toBe(500);
+      expect(result.error!.code).toBe("UnexpectedErrorResponse");
+      expect(result.error!.body).toBeNull();
     });
 
-    it("should throw error when response is not OK with non-object body", async () => {
+    it("should return an unexpected error when response is not OK with non-object body", async () => {
       const response = createResponse(400, false, "Plain string error");
 
+      const result = await client.testProcessResponse(response);
+
+      expect(result.status).toBe(400);
+      expect(result.error!.body).toBe("Plain string error");
+    });
+  });
+
+  describe("Content types", () => {
+    it("should carry an HTML gateway page with the real status", async () => {
+      const response = new Response("<html><body>Bad Gateway</body></html>", {
+        status: 502,
+        statusText: "Bad Gateway",
+        headers: { "content-type": "text/html; charset=utf-8" },
+      });
+
+      const result = await client.testProcessResponse(response);
+
+      expect(result.status).toBe(502);
+      expect(result.error!.code).toBe("UnexpectedErrorResponse");
+      expect(result.error!.message).toContain("502 (Bad Gateway)");
+      expect(result.error!.body).toBe("<html><body>Bad Gateway</body></html>");
+    });
+
+    it("should carry a text/plain error body", async () => {
+      const response = new Response("Rate limit exceeded", {
+        status: 429,
+        headers: { "content-type": "text/plain" },
+      });
+
+      const result = await client.testProcessResponse(response);
+
+      expect(result.status).toBe(429);
+      expect(result.error!.body).toBe("Rate limit exceeded");
+    });
+
+    it("should keep a malformed JSON error body as text", async () => {
+      const response = new Response("{ not json", {
+        status: 503,
+        headers: { "content-type": "application/json" },
+      });
+
+      const result = await client.testProcessResponse(response);
+
+      expect(result.status).toBe(503);
+      expect(result.error!.body).toBe("{ not json");
+    });
+
+    it("should return undefined data for an empty JSON body", async () => {
+      const response = new Response("", {
+        status: 200,
+        headers: { "content-type": "application/json" },
+      });
+
+      const result = await client.testProcessResponse(response);
+
+      expect(result.status).toBe(200);
+      expect(result.data).toBeUndefined();
+      expect(result.error).toBeUndefined();
+    });
+
+    it("should return undefined data for a 204 response", async () => {
+      const result = await client.testProcessResponse(new Response(null, { status: 204 }));
+
+      expect(result.status).toBe(204);
+      expect(result.data).toBeUndefined();
+    });
+
+    it("should parse +json media types", async () => {
+      const response = new Response(JSON.stringify({ id: "1" }), {
+        status: 200,
+        headers: { "content-type": "application/problem+json" },
+      });
+
+      const result = await client.testProcessResponse(response);
+
+      expect(result.data).toEqual({ id: "1" });
+    });
+
+    it("should return text bodies as strings", async () => {
+      const response = new Response("plain content", {
+        status: 200,
+        headers: { "content-type": "text/plain" },
+      });
+
+      const result = await client.testProcessResponse<string>(response);
+
+      expect(result.data).toBe("plain content");
+    });
+
+    it("should return binary bodies as a Blob", async () => {
+      const response = new Response(new Uint8Array([0xff, 0xd8, 0xff]), {
+        status: 200,
+        headers: { "content-type": "image/jpeg" },
+      });
+
+      const result = await client.testProcessResponse<Blob>(response);
+
+      expect(result.data).toBeInstanceOf(Blob);
+      expect(result.data!.size).toBe(3);
+    });
+
+    it("should parse untyped JSON bodies and keep other untyped bodies as text", async () => {
+      // Byte bodies get no default content type, unlike string bodies
+      const encoder = new TextEncoder();
+      const jsonResult = await client.testProcessResponse(new Response(encoder.encode('{"id":"1"}'), { status: 200 }));
+      const textResult = await client.testProcessResponse(new Response(encoder.encode("done"), { status: 200 }));
+
+      expect(jsonResult.data).toEqual({ id: "1" });
+      expect(textResult.data).toBe("done");
+    });
+
+    it("should throw a parse failure for malformed successful JSON", async () => {
+      const response = new Response("{ not json", {
+        status: 200,
+        headers: { "content-type": "application/json" },
+      });
+
       await expect(client.testProcessResponse(response)).rejects.toThrow(
-        "An error occurred while processing the request"
+        "The 200 response body could not be parsed as JSON."
       );
     });
   });
@@ -810,11 +942,10 @@ describe("BaseBentleyAPIClient - processResponse", () => {
     });
 
     it("should handle empty string as undefined", async () => {
-      const mockResponse = {
+      const mockResponse = new Response('""', {
         status: 200,
-        ok: true,
-        json: async () => ""
-      } as Response;
+        headers: { "content-type": "application/json" },
+      });
 
       const result = await client.testProcessResponse(mockResponse);
 
@@ -868,7 +999,7 @@ describe("BaseBentleyAPIClient - sendGenericAPIRequest with redirects", () => {
     redirected?: boolean,
     url?: string
   ): Response {
-    const headers = new Headers();
+    const headers = new Headers({ "content-type": "application/json" });
     if (locationHeader) {
       headers.set('location', locationHeader);
     }
@@ -877,7 +1008,7 @@ describe("BaseBentleyAPIClient - sendGenericAPIRequest with redirects", () => {
       status,
       ok,
       headers,
-      json: async () => body,
+      text: async () => JSON.stringify(body),
       type,
       redirected,
       url,
@@ -1137,7 +1268,7 @@ describe("BaseBentleyAPIClient - sendGenericAPIRequest with redirects", () => {
   });
 
   describe("Error handling in redirects", () => {
-    it("should return 500 when fetch throws during redirect", async () => {
+    it("should return a network error when fetch throws during redirect", async () => {
       const redirectResponse = createMockResponse(
         302,
         false,
@@ -1163,11 +1294,12 @@ describe("BaseBentleyAPIClient - sendGenericAPIRequest with redirects", () => {
         true
       );
 
-      expect(result.status).toBe(500);
-      expect(result.error!.code).toBe("InternalServerError");
+      expect(result.status).toBe(503);
+      expect(result.error!.code).toBe("NetworkError");
+      expect(result.error!.category).toBe("network");
     });
 
-    it("should return 500 when initial request throws", async () => {
+    it("should return a network error when initial request throws", async () => {
       globalThis.fetch = async () => {
         throw new Error("Network failure");
       };
@@ -1181,9 +1313,2114 @@ describe("BaseBentleyAPIClient - sendGenericAPIRequest with redirects", () => {
         false
       );
 
-      expect(result.status).toBe(500);
-      expect(result.error!.code).toBe("InternalServerError");
-      expect(result.error!.message).toContain("internal exception");
+      expect(result.status).toBe(503);
+      expect(result.error!.code).toBe("NetworkError");
+      expect(result.error!.message).toContain("Network failure");
+      expect((result.error!.cause as Error).message).toBe("Network failure");
+    });
+  });
+});
+
+describe("BaseBentleyAPIClient - transport options", () => {
+  function createJsonResponse(status: number, body: any, locationHeader?: string): Response {
+    const headers = new Headers({ "content-type": "application/json" });
+    if (locationHeader) {
+      headers.set("location", locationHeader);
+    }
+
+    return new Response(JSON.stringify(body), { status, headers });
+  }
+
+  function createRecordingFetch(responses: Response[]) {
+    const calls: { url: string; init: RequestInit }[] = [];
+    const fetchImplementation = async (url: string, init: RequestInit) => {
+      calls.push({ url, init });
+      const response = responses.shift();
+      if (!response) {
+        throw new Error("No more mock responses available");
+      }
+      return response;
+    };
+    return { calls, fetchImplementation };
+  }
+
+  it("should keep accepting a positional max redirects value", () => {
+    const client = new TestableBaseBentleyAPIClient(7);
+    expect(client.testMaxRedirects).toBe(7);
+  });
+
+  it("should read max redirects from the options object", () => {
+    const client = new TestableBaseBentleyAPIClient({ maxRedirects: 3 });
+    expect(client.testMaxRedirects).toBe(3);
+  });
+
+  it("should send requests through the injected fetch implementation", async () => {
+    const { calls, fetchImplementation } = createRecordingFetch([
+      createJsonResponse(200, { id: "123" }),
+    ]);
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation });
+
+    const result = await client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/itwins/123"
+    );
+
+    expect(result.status).toBe(200);
+    expect(result.data).toEqual({ id: "123" });
+    expect(calls).toHaveLength(1);
+    expect(calls[0].url).toBe("https://api.bentley.com/itwins/123");
+    expect(calls[0].init.redirect).toBe("manual");
+  });
+
+  it("should use the injected fetch implementation for 302 redirect hops", async () => {
+    const { calls, fetchImplementation } = createRecordingFetch([
+      createJsonResponse(302, {}, "https://api.bentley.com/redirected"),
+      createJsonResponse(200, { result: "final" }),
+    ]);
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation });
+
+    const result = await client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/original",
+      undefined,
+      undefined,
+      true
+    );
+
+    expect(result.data).toEqual({ result: "final" });
+    expect(calls.map((call) => call.url)).toEqual([
+      "https://api.bentley.com/original",
+      "https://api.bentley.com/redirected",
+    ]);
+  });
+
+  it("should use the injected fetch implementation for opaque redirects", async () => {
+    const { calls, fetchImplementation } = createRecordingFetch([
+      { status: 0, ok: false, type: "opaqueredirect", headers: new Headers() } as Response,
+      createJsonResponse(200, { result: "final" }),
+    ]);
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation });
+
+    const result = await client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/original",
+      undefined,
+      undefined,
+      true
+    );
+
+    expect(result.data).toEqual({ result: "final" });
+    expect(calls).toHaveLength(2);
+    expect(calls[1].init.redirect).toBe("follow");
+  });
+
+  it("should apply default headers and let request headers override them", async () => {
+    const { calls, fetchImplementation } = createRecordingFetch([
+      createJsonResponse(200, {}),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      defaultHeaders: { "x-correlation-id": "default-id", "x-client": "tests" },
+    });
+
+    await client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/itwins",
+      undefined,
+      { "x-correlation-id": "request-id" }
+    );
+
+    const headers = calls[0].init.headers as Record<string, string>;
+    expect(headers["x-correlation-id"]).toBe("request-id");
+    expect(headers["x-client"]).toBe("tests");
+    expect(headers.authorization).toBe("test-token");
+  });
+
+  it("should not let default headers override the authorization header", async () => {
+    const { calls, fetchImplementation } = createRecordingFetch([
+      createJsonResponse(200, {}),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      defaultHeaders: { authorization: "stale-token" },
+    });
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    const headers = calls[0].init.headers as Record<string, string>;
+    expect(headers.authorization).toBe("test-token");
+  });
+});
+
+describe("BaseBentleyAPIClient - retry policy", () => {
+  function createResponse(status: number, body: any = {}, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "content-type": "application/json", ...headers },
+    });
+  }
+
+  function createSequenceFetch(results: Array<Response | Error>) {
+    const calls: RequestInit[] = [];
+    const fetchImplementation = async (_url: string, init: RequestInit) => {
+      calls.push(init);
+      const result = results.shift();
+      if (!result) {
+        throw new Error("No more mock responses available");
+      }
+      if (result instanceof Error) {
+        throw result;
+      }
+      return result;
+    };
+    return { calls, fetchImplementation };
+  }
+
+  const serviceUnavailable = {
+    error: { code: "ServiceUnavailable", message: "Try again later" },
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should send requests only once when no retry policy is configured", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createResponse(503, serviceUnavailable),
+    ]);
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(calls).toHaveLength(1);
+    expect(result.status).toBe(503);
+    expect(result.attempts).toBe(1);
+  });
+
+  it("should retry retryable status codes until a successful response", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createResponse(429, { error: { code: "TooManyRequests", message: "Slow down" } }),
+      createResponse(503, serviceUnavailable),
+      createResponse(200, { id: "123" }),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      retry: { maxAttempts: 3, baseDelayMs: 0 },
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(calls).toHaveLength(3);
+    expect(result.status).toBe(200);
+    expect(result.data).toEqual({ id: "123" });
+    expect(result.attempts).toBe(3);
+  });
+
+  it("should return the last failed response once attempts are exhausted", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createResponse(503, serviceUnavailable),
+      createResponse(503, serviceUnavailable),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      retry: { maxAttempts: 2, baseDelayMs: 0 },
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(calls).toHaveLength(2);
+    expect(result.status).toBe(503);
+    expect(result.error!.code).toBe("ServiceUnavailable");
+    expect(result.attempts).toBe(2);
+  });
+
+  it("should not retry status codes outside the retryable list", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createResponse(404, { error: { code: "NotFound", message: "Missing" } }),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      retry: { baseDelayMs: 0 },
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(calls).toHaveLength(1);
+    expect(result.status).toBe(404);
+  });
+
+  it("should honor custom retryable status codes", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createResponse(409, { error: { code: "Conflict", message: "Busy" } }),
+      createResponse(200, {}),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      retry: { baseDelayMs: 0, retryableStatusCodes: [409] },
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(calls).toHaveLength(2);
+    expect(result.status).toBe(200);
+  });
+
+  it("should not retry non-idempotent methods by default", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createResponse(503, serviceUnavailable),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      retry: { baseDelayMs: 0 },
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "POST", "https://api.bentley.com/itwins", {});
+
+    expect(calls).toHaveLength(1);
+    expect(result.status).toBe(503);
+    expect(result.attempts).toBe(1);
+  });
+
+  it("should retry non-idempotent methods when explicitly allowed", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createResponse(503, serviceUnavailable),
+      createResponse(201, { id: "new" }),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      retry: { baseDelayMs: 0, retryNonIdempotent: true },
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "PATCH", "https://api.bentley.com/itwins/1", {});
+
+    expect(calls).toHaveLength(2);
+    expect(calls[1].body).toBe(calls[0].body);
+    expect(result.status).toBe(201);
+  });
+
+  it("should retry network errors for idempotent methods", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      new TypeError("fetch failed"),
+      createResponse(200, { id: "123" }),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      retry: { baseDelayMs: 0 },
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(calls).toHaveLength(2);
+    expect(result.status).toBe(200);
+    expect(result.attempts).toBe(2);
+  });
+
+  it("should not retry network errors when disabled", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      new TypeError("fetch failed"),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      retry: { baseDelayMs: 0, retryOnNetworkError: false },
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(calls).toHaveLength(1);
+    expect(result.status).toBe(503);
+    expect(result.error!.code).toBe("NetworkError");
+  });
+
+  it("should wait for the delay given in seconds by Retry-After", async () => {
+    vi.useFakeTimers();
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createResponse(429, {}, { "retry-after": "2" }),
+      createResponse(200, {}),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      retry: { baseDelayMs: 0 },
+    });
+
+    const pending = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    const result = await pending;
+    expect(calls).toHaveLength(2);
+    expect(result.status).toBe(200);
+  });
+
+  it("should accept Retry-After expressed as an HTTP date", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createResponse(503, serviceUnavailable, { "retry-after": "Wed, 01 Jan 2025 00:00:03 GMT" }),
+      createResponse(200, {}),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      retry: { baseDelayMs: 0 },
+    });
+
+    const pending = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(calls).toHaveLength(2);
+  });
+
+  it("should return the response when Retry-After exceeds the maximum delay", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createResponse(429, { error: { code: "TooManyRequests", message: "Slow down" } }, { "retry-after": "120" }),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      retry: { maxDelayMs: 1000 },
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(calls).toHaveLength(1);
+    expect(result.status).toBe(429);
+  });
+
+  it("should back off exponentially without jitter when disabled", async () => {
+    vi.useFakeTimers();
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createResponse(503, serviceUnavailable),
+      createResponse(503, serviceUnavailable),
+      createResponse(200, {}),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      retry: { baseDelayMs: 100, jitter: false },
+    });
+
+    const pending = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(calls).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(199);
+    expect(calls).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    const result = await pending;
+    expect(calls).toHaveLength(3);
+    expect(result.attempts).toBe(3);
+  });
+});
+
+describe("BaseBentleyAPIClient - cancellation and timeouts", () => {
+  /**
+   * Fetch mock that never resolves on its own and rejects once its signal is aborted
+   */
+  function createHangingFetch() {
+    const calls: RequestInit[] = [];
+    const fetchImplementation = async (_url: string, init: RequestInit) => {
+      calls.push(init);
+      return new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () => reject(new Error("The operation was aborted")));
+      });
+    };
+    return { calls, fetchImplementation };
+  }
+
+  function createResponse(status: number, body: any = {}, locationHeader?: string): Response {
+    const headers = new Headers({ "content-type": "application/json" });
+    if (locationHeader) {
+      headers.set("location", locationHeader);
+    }
+    return new Response(JSON.stringify(body), { status, headers });
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should not pass a signal to fetch when no request options are given", async () => {
+    const calls: RequestInit[] = [];
+    const client = new ExtendedTestableClient({
+      fetch: async (_url, init) => {
+        calls.push(init);
+        return createResponse(200);
+      },
+    });
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(calls[0].signal).toBeUndefined();
+  });
+
+  it("should return RequestAborted when the caller aborts the request", async () => {
+    const { calls, fetchImplementation } = createHangingFetch();
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation });
+    const controller = new AbortController();
+
+    const pending = client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/itwins",
+      undefined,
+      undefined,
+      false,
+      { signal: controller.signal }
+    );
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    controller.abort();
+    const result = await pending;
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].signal).toBeDefined();
+    expect(result.status).toBe(499);
+    expect(result.error!.code).toBe("RequestAborted");
+  });
+
+  it("should not call fetch when the signal is already aborted", async () => {
+    const { calls, fetchImplementation } = createHangingFetch();
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation });
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/itwins",
+      undefined,
+      undefined,
+      false,
+      { signal: controller.signal }
+    );
+
+    expect(calls).toHaveLength(0);
+    expect(result.error!.code).toBe("RequestAborted");
+    expect(result.attempts).toBe(1);
+  });
+
+  it("should return RequestTimeout when the timeout elapses", async () => {
+    vi.useFakeTimers();
+    const { fetchImplementation } = createHangingFetch();
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation });
+
+    const pending = client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/itwins",
+      undefined,
+      undefined,
+      false,
+      { timeoutMs: 1000 }
+    );
+    await vi.advanceTimersByTimeAsync(1000);
+    const result = await pending;
+
+    expect(result.status).toBe(408);
+    expect(result.error!.code).toBe("RequestTimeout");
+    expect(result.error!.message).toContain("1000 ms");
+  });
+
+  it("should pass the signal to redirect follow-ups", async () => {
+    const calls: RequestInit[] = [];
+    const responses = [
+      createResponse(302, {}, "https://api.bentley.com/redirected"),
+      createResponse(200, { ok: true }),
+    ];
+    const client = new ExtendedTestableClient({
+      fetch: async (_url, init) => {
+        calls.push(init);
+        return responses.shift()!;
+      },
+    });
+    const controller = new AbortController();
+
+    const result = await client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/original",
+      undefined,
+      undefined,
+      true,
+      { signal: controller.signal }
+    );
+
+    expect(result.status).toBe(200);
+    expect(calls).toHaveLength(2);
+    expect(calls[0].signal).toBeDefined();
+    expect(calls[1].signal).toBe(calls[0].signal);
+  });
+
+  it("should stop retrying when aborted during a backoff delay", async () => {
+    vi.useFakeTimers();
+    const calls: RequestInit[] = [];
+    const client = new ExtendedTestableClient({
+      fetch: async (_url, init) => {
+        calls.push(init);
+        return createResponse(503, { error: { code: "ServiceUnavailable", message: "Later" } });
+      },
+      retry: { baseDelayMs: 10000, jitter: false },
     });
+    const controller = new AbortController();
+
+    const pending = client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/itwins",
+      undefined,
+      undefined,
+      false,
+      { signal: controller.signal }
+    );
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+    const result = await pending;
+
+    expect(calls).toHaveLength(1);
+    expect(result.error!.code).toBe("RequestAborted");
+  });
+
+  it("should not retry a request aborted by its timeout", async () => {
+    vi.useFakeTimers();
+    const { calls, fetchImplementation } = createHangingFetch();
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      retry: { baseDelayMs: 0 },
+    });
+
+    const pending = client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/itwins",
+      undefined,
+      undefined,
+      false,
+      { timeoutMs: 50 }
+    );
+    await vi.advanceTimersByTimeAsync(50);
+    const result = await pending;
+
+    expect(calls).toHaveLength(1);
+    expect(result.error!.code).toBe("RequestTimeout");
+  });
+});
+
+describe("BaseBentleyAPIClient - middleware", () => {
+  function createResponse(status: number, body: any = {}, locationHeader?: string): Response {
+    const headers = new Headers({ "content-type": "application/json" });
+    if (locationHeader) {
+      headers.set("location", locationHeader);
+    }
+    return new Response(JSON.stringify(body), { status, headers });
+  }
+
+  function createSequenceFetch(responses: Response[]) {
+    const calls: Array<{ url: string; init: RequestInit }> = [];
+    const fetchImplementation = async (url: string, init: RequestInit) => {
+      calls.push({ url, init });
+      return responses[calls.length - 1];
+    };
+    return { calls, fetchImplementation };
+  }
+
+  it("should let request hooks modify the request configuration", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([createResponse(200, { id: "1" })]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      middleware: [
+        {
+          onRequest: (request) => {
+            request.headers["x-correlation-id"] = "abc";
+          },
+        },
+        {
+          onRequest: (request) => ({
+            ...request,
+            url: request.url.replace("https://api.bentley.com", "https://gateway.example.com"),
+          }),
+        },
+      ],
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(result.status).toBe(200);
+    expect(calls[0].url).toBe("https://gateway.example.com/itwins");
+    expect((calls[0].init.headers as Record<string, string>)["x-correlation-id"]).toBe("abc");
+  });
+
+  it("should short-circuit with a synthetic response without calling fetch", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([]);
+    const secondHook = vi.fn();
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      middleware: [
+        { onRequest: () => ({ response: { status: 200, data: { cached: true } } }) },
+        { onRequest: secondHook },
+      ],
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(calls).toHaveLength(0);
+    expect(secondHook).not.toHaveBeenCalled();
+    expect(result.data).toEqual({ cached: true });
+  });
+
+  it("should run response hooks in reverse registration order", async () => {
+    const { fetchImplementation } = createSequenceFetch([createResponse(200, { value: "fetched" })]);
+    const order: string[] = [];
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      middleware: [
+        { onResponse: () => { order.push("first"); } },
+        {
+          onResponse: (response) => {
+            order.push("second");
+            return { ...response, data: { value: "transformed" } };
+          },
+        },
+      ],
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(order).toEqual(["second", "first"]);
+    expect(result.data).toEqual({ value: "transformed" });
+    expect(result.attempts).toBe(1);
+  });
+
+  it("should run request hooks for every redirect hop", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createResponse(302, {}, "https://qa-api.bentley.com/itwins"),
+      createResponse(200, {}),
+    ]);
+    const redirectCounts: number[] = [];
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation });
+    client.use({
+      onRequest: (request, context) => {
+        redirectCounts.push(context.redirectCount);
+        request.headers["x-hop"] = String(context.redirectCount);
+      },
+    });
+
+    const result = await client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/itwins",
+      undefined,
+      undefined,
+      true
+    );
+
+    expect(result.status).toBe(200);
+    expect(redirectCounts).toEqual([0, 1]);
+    expect((calls[1].init.headers as Record<string, string>)["x-hop"]).toBe("1");
+  });
+
+  it("should share state between the hooks of a single call", async () => {
+    const { fetchImplementation } = createSequenceFetch([createResponse(200), createResponse(200)]);
+    const seen: unknown[] = [];
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      middleware: [
+        {
+          onRequest: (_request, context) => {
+            context.state.startedBy = context.state.startedBy ?? "request-hook";
+          },
+          onResponse: (_response, context) => {
+            seen.push(context.state.startedBy);
+            context.state.startedBy = "response-hook";
+          },
+        },
+      ],
+    });
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(seen).toEqual(["request-hook", "request-hook"]);
+  });
+
+  it("should return an internal error response when a hook throws", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([createResponse(200)]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      middleware: [
+        {
+          onRequest: () => {
+            throw new Error("hook failed");
+          },
+        },
+      ],
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(calls).toHaveLength(0);
+    expect(result.status).toBe(500);
+    expect(result.error!.code).toBe("InternalServerError");
+  });
+});
+
+describe("BaseBentleyAPIClient - error taxonomy", () => {
+  function createResponse(status: number, body: string): Response {
+    return new Response(body, { status, headers: { "content-type": "application/json" } });
+  }
+
+  function createClient(response: Response | Error) {
+    return new ExtendedTestableClient({
+      fetch: async () => {
+        if (response instanceof Error) {
+          throw response;
+        }
+        return response;
+      },
+    });
+  }
+
+  it("should report network failures with their original cause", async () => {
+    const cause = new TypeError("getaddrinfo ENOTFOUND api.bentley.com");
+    const client = createClient(cause);
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(result.status).toBe(503);
+    expect(result.error!.code).toBe("NetworkError");
+    expect(result.error!.category).toBe("network");
+    expect(result.error!.cause).toBe(cause);
+  });
+
+  it("should report unparsable successful bodies as parse errors", async () => {
+    const client = createClient(createResponse(200, "<html></html>"));
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(result.status).toBe(502);
+    expect(result.error!.code).toBe("InvalidResponseBody");
+    expect(result.error!.category).toBe("parse");
+    expect(result.error!.cause).toBeInstanceOf(SyntaxError);
+  });
+
+  it("should keep the received headers on parse errors", async () => {
+    const client = createClient(
+      new Response("<html></html>", {
+        status: 200,
+        headers: { "content-type": "application/json", "x-correlation-id": "correlation-1" },
+      })
+    );
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(result.error!.code).toBe("InvalidResponseBody");
+    expect(result.headers!["x-correlation-id"]).toBe("correlation-1");
+    expect(result.meta!.url).toBe("https://api.bentley.com/itwins");
+  });
+
+  it("should keep the status of error responses that are not APIM errors", async () => {
+    const client = createClient(createResponse(502, "<html></html>"));
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(result.status).toBe(502);
+    expect(result.error!.code).toBe("UnexpectedErrorResponse");
+    expect(result.error!.category).toBe("unexpected-non-json");
+  });
+
+  it("should mark APIM errors as server errors", async () => {
+    const client = createClient(createResponse(404, JSON.stringify({
+      error: { code: "iTwinNotFound", message: "Requested iTwin is not available." },
+    })));
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+
+    expect(result.status).toBe(404);
+    expect(result.error!.code).toBe("iTwinNotFound");
+    expect(result.error!.category).toBe("server");
+  });
+
+  it("should mark rejected redirects as redirect policy errors", async () => {
+    const headers = new Headers({ location: "https://evil.example.com/itwins" });
+    const client = createClient({ status: 302, ok: false, headers } as Response);
+
+    const result = await client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/itwins",
+      undefined,
+      undefined,
+      true
+    );
+
+    expect(result.error!.code).toBe("InvalidRedirectUrl");
+    expect(result.error!.category).toBe("redirect-policy");
+    expect(result.error!.cause).toBeInstanceOf(Error);
+  });
+
+  it("should report client-side exceptions as internal errors with their cause", async () => {
+    const client = createClient(createResponse(200, "{}"));
+
+    const result = await client.testSendGenericAPIRequest("", "GET", "https://api.bentley.com/itwins");
+
+    expect(result.status).toBe(500);
+    expect(result.error!.code).toBe("InternalServerError");
+    expect(result.error!.category).toBe("internal");
+    expect((result.error!.cause as Error).message).toBe("Access token is required");
+  });
+});
+
+describe("BaseBentleyAPIClient - access token provider", () => {
+  const unauthorized = { error: { code: "HeaderNotFound", message: "Header Authorization was not found in the request." } };
+
+  function createResponse(status: number, body: any = {}): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "content-type": "application/json" },
+    });
+  }
+
+  function createSequenceFetch(responses: Response[]) {
+    const authorizations: string[] = [];
+    const fetchImplementation = async (_url: string, init: RequestInit) => {
+      authorizations.push((init.headers as Record<string, string>).authorization);
+      return responses[authorizations.length - 1];
+    };
+    return { authorizations, fetchImplementation };
+  }
+
+  it("should use the provided token when no access token is given", async () => {
+    const { authorizations, fetchImplementation } = createSequenceFetch([createResponse(200)]);
+    const accessTokenProvider = vi.fn(async () => "provided-token");
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation, accessTokenProvider });
+
+    const result = await client.testSendGenericAPIRequest("", "GET", "https://api.bentley.com/itwins");
+
+    expect(result.status).toBe(200);
+    expect(authorizations).toEqual(["provided-token"]);
+    expect(accessTokenProvider).toHaveBeenCalledWith({ forceRefresh: false });
+  });
+
+  it("should keep using an explicit access token", async () => {
+    const { authorizations, fetchImplementation } = createSequenceFetch([createResponse(401, unauthorized)]);
+    const accessTokenProvider = vi.fn(async () => "provided-token");
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation, accessTokenProvider });
+
+    const result = await client.testSendGenericAPIRequest("explicit-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(result.status).toBe(401);
+    expect(authorizations).toEqual(["explicit-token"]);
+    expect(accessTokenProvider).not.toHaveBeenCalled();
+  });
+
+  it("should refresh the token and retry once on 401", async () => {
+    const { authorizations, fetchImplementation } = createSequenceFetch([
+      createResponse(401, unauthorized),
+      createResponse(200, { id: "1" }),
+    ]);
+    const accessTokenProvider = vi.fn(async ({ forceRefresh }: { forceRefresh: boolean }) =>
+      forceRefresh ? "refreshed-token" : "expired-token"
+    );
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation, accessTokenProvider });
+
+    const result = await client.testSendGenericAPIRequest("", "GET", "https://api.bentley.com/itwins");
+
+    expect(result.status).toBe(200);
+    expect(result.data).toEqual({ id: "1" });
+    expect(result.attempts).toBe(2);
+    expect(authorizations).toEqual(["expired-token", "refreshed-token"]);
+  });
+
+  it("should return the second 401 without refreshing again", async () => {
+    const { authorizations, fetchImplementation } = createSequenceFetch([
+      createResponse(401, unauthorized),
+      createResponse(401, unauthorized),
+    ]);
+    const accessTokenProvider = vi.fn(async () => "rejected-token");
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation, accessTokenProvider });
+
+    const result = await client.testSendGenericAPIRequest("", "GET", "https://api.bentley.com/itwins");
+
+    expect(result.status).toBe(401);
+    expect(result.error!.code).toBe("HeaderNotFound");
+    expect(authorizations).toHaveLength(2);
+    expect(accessTokenProvider).toHaveBeenCalledTimes(2);
+  });
+
+  it("should return AccessTokenUnavailable when the provider fails", async () => {
+    const { authorizations, fetchImplementation } = createSequenceFetch([]);
+    const cause = new Error("Session expired");
+    const accessTokenProvider = vi.fn(async (): Promise<string> => {
+      throw cause;
+    });
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation, accessTokenProvider });
+
+    const result = await client.testSendGenericAPIRequest("", "GET", "https://api.bentley.com/itwins");
+
+    expect(authorizations).toHaveLength(0);
+    expect(result.status).toBe(401);
+    expect(result.error!.code).toBe("AccessTokenUnavailable");
+    expect(result.error!.cause).toBe(cause);
+    expect(result.attempts).toBe(0);
+    expect(accessTokenProvider).toHaveBeenCalledTimes(1);
+    expect(accessTokenProvider).toHaveBeenCalledWith({ forceRefresh: false });
+  });
+});
+
+describe("BaseBentleyAPIClient - trusted host policy", () => {
+  function createRedirectResponse(location: string): Response {
+    return new Response(null, { status: 302, headers: { location } });
+  }
+
+  function createClient(options: BentleyAPIClientOptions) {
+    return new TestableBaseBentleyAPIClient(options);
+  }
+
+  it("should trust exact hosts from the policy", () => {
+    const client = createClient({ trustedHosts: { hosts: ["gateway.example.com"] } });
+
+    expect(client.testValidateRedirectUrlSecurity("https://gateway.example.com/itwins")).toBe(true);
+    expect(() => client.testValidateRedirectUrlSecurity("https://api.bentley.com/itwins")).toThrow(/not a trusted/);
+  });
+
+  it("should trust hosts matching a suffix but not the bare suffix", () => {
+    const client = createClient({ trustedHosts: { hostSuffixes: [".sovereign.example.com"] } });
+
+    expect(client.testValidateRedirectUrlSecurity("https://eu.sovereign.example.com/itwins")).toBe(true);
+    expect(client.testValidateRedirectUrlSecurity("https://api.bentley.com/itwins")).toBe(true);
+    expect(() => client.testValidateRedirectUrlSecurity("https://qa-api.bentley.com/itwins")).toThrow(/not a trusted/);
+    expect(() => client.testValidateRedirectUrlSecurity("https://.sovereign.example.com/itwins")).toThrow();
+  });
+
+  it("should trust hosts accepted by the predicate", () => {
+    const isTrusted = vi.fn((url: URL) => url.hostname === "onprem.local");
+    const client = createClient({ trustedHosts: { isTrusted } });
+
+    expect(client.testValidateRedirectUrlSecurity("https://onprem.local/itwins")).toBe(true);
+    expect(() => client.testValidateRedirectUrlSecurity("https://other.local/itwins")).toThrow(/predicate rejected/);
+    expect(isTrusted).toHaveBeenCalledTimes(2);
+  });
+
+  it("should allow HTTP for trusted localhost hosts only when enabled", () => {
+    const strict = createClient({ trustedHosts: { hosts: ["localhost"] } });
+    const relaxed = createClient({ trustedHosts: { hosts: ["localhost", "gateway.example.com"], allowHttpLocalhost: true } });
+
+    expect(() => strict.testValidateRedirectUrlSecurity("http://localhost:3000/itwins")).toThrow(/HTTPS required/);
+    expect(relaxed.testValidateRedirectUrlSecurity("http://localhost:3000/itwins")).toBe(true);
+    expect(() => relaxed.testValidateRedirectUrlSecurity("http://gateway.example.com/itwins")).toThrow(/HTTPS required/);
+    expect(() => relaxed.testValidateRedirectUrlSecurity("http://127.0.0.1:3000/itwins")).toThrow(/not a trusted/);
+  });
+
+  it("should report the violated rule when following a redirect", async () => {
+    const client = new ExtendedTestableClient({
+      trustedHosts: { hosts: ["api.bentley.com"] },
+      fetch: async () => createRedirectResponse("http://api.bentley.com/itwins"),
+    });
+
+    const result = await client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/itwins",
+      undefined,
+      undefined,
+      true
+    );
+
+    expect(result.status).toBe(502);
+    expect(result.error!.code).toBe("InvalidRedirectUrl");
+    expect(result.error!.details).toEqual([
+      { code: "HttpsRequired", message: expect.stringContaining("HTTPS required") },
+    ]);
+  });
+
+  it("should apply the policy to opaque redirects followed by fetch", async () => {
+    const calls: RequestInit[] = [];
+    const client = new ExtendedTestableClient({
+      trustedHosts: { hosts: ["gateway.example.com"] },
+      fetch: async (_url, init) => {
+        calls.push(init);
+        if (init.redirect === "manual") {
+          return { type: "opaqueredirect", status: 0, ok: false, headers: new Headers() } as Response;
+        }
+        return {
+          type: "basic",
+          status: 200,
+          ok: true,
+          redirected: true,
+          url: "https://api.bentley.com/final",
+          headers: new Headers({ "content-type": "application/json" }),
+          text: async () => "{}",
+        } as Response;
+      },
+    });
+
+    const result = await client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://gateway.example.com/itwins",
+      undefined,
+      undefined,
+      true
+    );
+
+    expect(calls).toHaveLength(2);
+    expect(result.status).toBe(502);
+    expect(result.error!.details![0].code).toBe("UntrustedHost");
+  });
+});
+
+describe("BaseBentleyAPIClient - redirect semantics", () => {
+  function createRedirectResponse(status: number, location: string): Response {
+    return new Response(null, { status, headers: { location } });
+  }
+
+  function createSequenceFetch(responses: Response[]) {
+    const calls: Array<{ url: string; init: RequestInit }> = [];
+    const fetchImplementation = async (url: string, init: RequestInit) => {
+      calls.push({ url, init });
+      return responses[calls.length - 1];
+    };
+    return { calls, fetchImplementation };
+  }
+
+  async function sendThroughRedirect(status: number, method: "GET" | "POST" | "PATCH", location = "https://api.bentley.com/moved") {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createRedirectResponse(status, location),
+      Response.json({ id: "1" }),
+    ]);
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation });
+    const result = await client.testSendGenericAPIRequest(
+      "test-token",
+      method,
+      "https://api.bentley.com/original",
+      method === "GET" ? undefined : { name: "value" },
+      undefined,
+      true
+    );
+    return { calls, result };
+  }
+
+  it.each([301, 302, 303, 307, 308])("should follow %i redirects", async (status) => {
+    const { calls, result } = await sendThroughRedirect(status, "GET");
+
+    expect(result.status).toBe(200);
+    expect(result.data).toEqual({ id: "1" });
+    expect(calls[1].url).toBe("https://api.bentley.com/moved");
+    expect(calls[1].init.method).toBe("GET");
+  });
+
+  it.each([307, 308])("should keep the method and body for %i redirects", async (status) => {
+    const { calls } = await sendThroughRedirect(status, "POST");
+
+    expect(calls[1].init.method).toBe("POST");
+    expect(calls[1].init.body).toBe(JSON.stringify({ name: "value" }));
+  });
+
+  it("should keep PATCH for 301 redirects", async () => {
+    const { calls } = await sendThroughRedirect(301, "PATCH");
+
+    expect(calls[1].init.method).toBe("PATCH");
+    expect(calls[1].init.body).toBe(JSON.stringify({ name: "value" }));
+  });
+
+  it.each([301, 302])("should switch POST to GET without body for %i redirects", async (status) => {
+    const { calls } = await sendThroughRedirect(status, "POST");
+
+    expect(calls[1].init.method).toBe("GET");
+    expect(calls[1].init.body).toBeUndefined();
+  });
+
+  it("should switch to GET without body for 303 redirects", async () => {
+    const { calls } = await sendThroughRedirect(303, "PATCH");
+
+    expect(calls[1].init.method).toBe("GET");
+    expect(calls[1].init.body).toBeUndefined();
+  });
+
+  it("should forward the Authorization header to trusted federated hosts", async () => {
+    const { calls, result } = await sendThroughRedirect(302, "GET", "https://eus-api.bentley.com/moved");
+
+    expect(result.status).toBe(200);
+    expect((calls[0].init.headers as Record<string, string>).authorization).toBe("test-token");
+    expect((calls[1].init.headers as Record<string, string>).authorization).toBe("test-token");
+  });
+
+  it("should strip the Authorization header when the redirect changes origin to a trusted host without credentials", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createRedirectResponse(307, "https://storage.example.com/moved"),
+      Response.json({ id: "1" }),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      trustedHosts: { isTrusted: (url) => url.hostname === "storage.example.com" },
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/original", undefined, undefined, true);
+
+    expect(result.status).toBe(200);
+    expect((calls[0].init.headers as Record<string, string>).authorization).toBe("test-token");
+    expect((calls[1].init.headers as Record<string, string>).authorization).toBeUndefined();
+  });
+
+  it("should forward the Authorization header to configured credential hosts", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createRedirectResponse(307, "https://gateway.example.com/moved"),
+      Response.json({ id: "1" }),
+    ]);
+    const client = new ExtendedTestableClient({
+      fetch: fetchImplementation,
+      trustedHosts: { hosts: ["api.bentley.com", "gateway.example.com"], credentialHosts: ["Gateway.Example.com"] },
+    });
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/original", undefined, undefined, true);
+
+    expect((calls[1].init.headers as Record<string, string>).authorization).toBe("test-token");
+  });
+
+  it("should keep the Authorization header for same-origin redirects", async () => {
+    const { calls } = await sendThroughRedirect(308, "GET");
+
+    expect((calls[1].init.headers as Record<string, string>).authorization).toBe("test-token");
+  });
+
+  it("should resolve relative Location headers against the request URL", async () => {
+    const { calls, result } = await sendThroughRedirect(302, "GET", "/itwins/moved?$top=1");
+
+    expect(result.status).toBe(200);
+    expect(calls[1].url).toBe("https://api.bentley.com/itwins/moved?$top=1");
+  });
+
+  it("should record the redirect chain on the response", async () => {
+    const { fetchImplementation } = createSequenceFetch([
+      createRedirectResponse(308, "https://api.bentley.com/second"),
+      createRedirectResponse(303, "https://api.bentley.com/final"),
+      Response.json({}),
+    ]);
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation });
+
+    const result = await client.testSendGenericAPIRequest(
+      "test-token",
+      "POST",
+      "https://api.bentley.com/first",
+      {},
+      undefined,
+      true
+    );
+
+    expect(result.redirects).toEqual([
+      { url: "https://api.bentley.com/first", status: 308, method: "POST", location: "https://api.bentley.com/second" },
+      { url: "https://api.bentley.com/second", status: 303, method: "POST", location: "https://api.bentley.com/final" },
+    ]);
+  });
+
+  it("should not record a redirect chain when no redirect was followed", async () => {
+    const { fetchImplementation } = createSequenceFetch([Response.json({})]);
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(result.redirects).toBeUndefined();
+  });
+
+  it("should reject 307 redirects when redirects are not allowed", async () => {
+    const { calls, fetchImplementation } = createSequenceFetch([
+      createRedirectResponse(307, "https://api.bentley.com/moved"),
+    ]);
+    const client = new ExtendedTestableClient({ fetch: fetchImplementation });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/original");
+
+    expect(calls).toHaveLength(1);
+    expect(result.status).toBe(403);
+    expect(result.error!.code).toBe("RedirectsNotAllowed");
+  });
+});
+
+describe("BaseBentleyAPIClient - response headers and metadata", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should expose the final response headers with lower-case names", async () => {
+    const client = new ExtendedTestableClient({
+      fetch: async () =>
+        Response.json(
+          { iTwin: { id: "1" } },
+          {
+            headers: [
+              ["ETag", "\"v1\""],
+              ["X-Correlation-Id", "abc-123"],
+              ["Sunset", "Wed, 11 Nov 2026 23:59:59 GMT"],
+            ],
+          }
+        ),
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+
+    expect(result.headers!.etag).toBe("\"v1\"");
+    expect(result.headers!["x-correlation-id"]).toBe("abc-123");
+    expect(result.headers!.sunset).toBe("Wed, 11 Nov 2026 23:59:59 GMT");
+  });
+
+  it("should expose headers of error responses", async () => {
+    const client = new ExtendedTestableClient({
+      fetch: async () =>
+        Response.json(
+          { error: { code: "RateLimitExceeded", message: "Too many requests" } },
+          { status: 429, headers: { "retry-after": "30" } }
+        ),
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(result.status).toBe(429);
+    expect(result.headers!["retry-after"]).toBe("30");
+  });
+
+  it("should describe the request in the meta block", async () => {
+    vi.useFakeTimers();
+    const client = new ExtendedTestableClient({
+      fetch: async (url) => {
+        if (url.endsWith("/original")) {
+          return new Response(null, { status: 302, headers: { location: "https://api.bentley.com/final" } });
+        }
+        await new Promise((resolve) => setTimeout(resolve, 250));
+        return Response.json({});
+      },
+    });
+
+    const pending = client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/original",
+      undefined,
+      undefined,
+      true
+    );
+    await vi.advanceTimersByTimeAsync(250);
+    const result = await pending;
+
+    expect(result.meta).toEqual({
+      url: "https://api.bentley.com/original",
+      method: "GET",
+      durationMs: 250,
+      attempts: 1,
+      finalUrl: "https://api.bentley.com/final",
+    });
+  });
+
+  it("should use the browser final URL for opaque redirects", async () => {
+    const client = new ExtendedTestableClient({
+      fetch: async (_url, init) => {
+        if (init.redirect === "manual") {
+          return { type: "opaqueredirect", status: 0, ok: false, headers: new Headers() } as Response;
+        }
+        return {
+          status: 200,
+          ok: true,
+          redirected: true,
+          url: "https://qa-api.bentley.com/final",
+          headers: new Headers({ "content-type": "application/json" }),
+          text: async () => "{}",
+        } as Response;
+      },
+    });
+
+    const result = await client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/original",
+      undefined,
+      undefined,
+      true
+    );
+
+    expect(result.meta!.finalUrl).toBe("https://qa-api.bentley.com/final");
+  });
+
+  it("should include the meta block in failure responses", async () => {
+    const client = new ExtendedTestableClient({
+      fetch: async () => {
+        throw new TypeError("fetch failed");
+      },
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "DELETE", "https://api.bentley.com/itwins/1");
+
+    expect(result.error!.code).toBe("NetworkError");
+    expect(result.headers).toBeUndefined();
+    expect(result.meta).toMatchObject({
+      url: "https://api.bentley.com/itwins/1",
+      method: "DELETE",
+      attempts: 1,
+      finalUrl: "https://api.bentley.com/itwins/1",
+    });
+  });
+});
+
+describe("BaseBentleyAPIClient - response cache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Creates a fetch returning a numbered JSON body and recording every call
+   */
+  function createCountingFetch(etag?: string) {
+    const calls: Array<{ url: string; init: RequestInit }> = [];
+    const fetch = vi.fn(async (url: string, init: RequestInit) => {
+      calls.push({ url, init });
+      return Response.json(
+        { call: calls.length },
+        { headers: etag ? [["ETag", etag]] : [] }
+      );
+    });
+    return { calls, fetch };
+  }
+
+  it("should not cache responses by default", async () => {
+    const { calls, fetch } = createCountingFetch();
+    const client = new ExtendedTestableClient({ fetch });
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+
+    expect(calls).toHaveLength(2);
+  });
+
+  it("should serve fresh GET responses from the cache", async () => {
+    const { calls, fetch } = createCountingFetch();
+    const client = new ExtendedTestableClient({ fetch, cache: true });
+
+    const first = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    const second = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+
+    expect(calls).toHaveLength(1);
+    expect(first.meta!.cache).toBeUndefined();
+    expect(second.data).toEqual({ call: 1 });
+    expect(second.meta).toMatchObject({ cache: "hit", attempts: 0 });
+  });
+
+  it("should return copies that callers cannot use to alter the cache", async () => {
+    const { fetch } = createCountingFetch();
+    const client = new ExtendedTestableClient({ fetch, cache: true });
+
+    const first = await client.testSendGenericAPIRequest<{ call: number }>("test-token", "GET", "https://api.bentley.com/itwins/1");
+    first.data!.call = 42;
+    const second = await client.testSendGenericAPIRequest<{ call: number }>("test-token", "GET", "https://api.bentley.com/itwins/1");
+    second.data!.call = 43;
+    const third = await client.testSendGenericAPIRequest<{ call: number }>("test-token", "GET", "https://api.bentley.com/itwins/1");
+
+    expect(third.data).toEqual({ call: 1 });
+  });
+
+  it("should key responses by token and by prefer and query scope headers", async () => {
+    const { calls, fetch } = createCountingFetch();
+    const client = new ExtendedTestableClient({ fetch, cache: true });
+    const url = "https://api.bentley.com/itwins/1";
+
+    await client.testSendGenericAPIRequest("token-a", "GET", url);
+    await client.testSendGenericAPIRequest("token-b", "GET", url);
+    await client.testSendGenericAPIRequest("token-a", "GET", url, undefined, { prefer: "return=representation" });
+    await client.testSendGenericAPIRequest("token-a", "GET", url, undefined, { "x-itwin-query-scope": "all" });
+    await client.testSendGenericAPIRequest("token-a", "GET", url, undefined, { "x-correlation-id": "abc" });
+
+    expect(calls).toHaveLength(4);
+  });
+
+  it("should share responses between tokens mapped to the same identity", async () => {
+    const { calls, fetch } = createCountingFetch();
+    const client = new ExtendedTestableClient({
+      fetch,
+      cache: { tokenIdentity: (token) => token.split(".")[0] },
+    });
+
+    await client.testSendGenericAPIRequest("user-1.first", "GET", "https://api.bentley.com/itwins/1");
+    await client.testSendGenericAPIRequest("user-1.refreshed", "GET", "https://api.bentley.com/itwins/1");
+
+    expect(calls).toHaveLength(1);
+  });
+
+  it("should send the request again once the TTL elapsed", async () => {
+    vi.useFakeTimers();
+    const { calls, fetch } = createCountingFetch();
+    const client = new ExtendedTestableClient({ fetch, cache: { ttlMs: 1000 } });
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    vi.advanceTimersByTime(999);
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    vi.advanceTimersByTime(1);
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+
+    expect(calls).toHaveLength(2);
+    expect(calls[1].init.headers).not.toHaveProperty("if-none-match");
+    expect(result.data).toEqual({ call: 2 });
+  });
+
+  it("should apply the first matching endpoint TTL", async () => {
+    vi.useFakeTimers();
+    const { calls, fetch } = createCountingFetch();
+    const client = new ExtendedTestableClient({
+      fetch,
+      cache: {
+        ttlMs: 1000,
+        endpointTtls: [
+          { pattern: /\/graphics$/, ttlMs: 0 },
+          { pattern: /\/repositories/, ttlMs: 5000 },
+        ],
+      },
+    });
+    const graphicsUrl = "https://api.bentley.com/itwins/1/repositories/r/resources/x/graphics";
+    const repositoriesUrl = "https://api.bentley.com/itwins/1/repositories";
+
+    await client.testSendGenericAPIRequest("test-token", "GET", graphicsUrl);
+    await client.testSendGenericAPIRequest("test-token", "GET", graphicsUrl);
+    await client.testSendGenericAPIRequest("test-token", "GET", repositoriesUrl);
+    vi.advanceTimersByTime(4000);
+    await client.testSendGenericAPIRequest("test-token", "GET", repositoriesUrl);
+
+    expect(calls.map((call) => call.url)).toEqual([graphicsUrl, graphicsUrl, repositoriesUrl]);
+  });
+
+  it("should revalidate stale responses with If-None-Match", async () => {
+    vi.useFakeTimers();
+    const calls: RequestInit[] = [];
+    const client = new ExtendedTestableClient({
+      cache: { ttlMs: 1000 },
+      fetch: async (_url, init) => {
+        calls.push(init);
+        if (calls.length === 1) {
+          return Response.json({ iTwin: { id: "1" } }, { headers: [["ETag", "\"v1\""]] });
+        }
+        return new Response(null, { status: 304, headers: [["ETag", "\"v1\""]] });
+      },
+    });
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    vi.advanceTimersByTime(1000);
+    const revalidated = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    const hit = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+
+    expect(calls).toHaveLength(2);
+    expect((calls[1].headers as Record<string, string>)["if-none-match"]).toBe("\"v1\"");
+    expect(revalidated).toMatchObject({ status: 200, data: { iTwin: { id: "1" } }, etag: "\"v1\"" });
+    expect(revalidated.meta).toMatchObject({ cache: "revalidated", attempts: 1 });
+    expect(hit.meta!.cache).toBe("hit");
+  });
+
+  it("should replace a stale response the server changed", async () => {
+    vi.useFakeTimers();
+    const { calls, fetch } = createCountingFetch("\"v1\"");
+    const client = new ExtendedTestableClient({ fetch, cache: { ttlMs: 1000 } });
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    vi.advanceTimersByTime(1000);
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+
+    expect(calls).toHaveLength(2);
+    expect(result.data).toEqual({ call: 2 });
+    expect(result.meta!.cache).toBeUndefined();
+  });
+
+  it("should not cache error responses", async () => {
+    const fetch = vi.fn(async () =>
+      Response.json({ error: { code: "iTwinNotFound", message: "Not found" } }, { status: 404 })
+    );
+    const client = new ExtendedTestableClient({ fetch, cache: true });
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should evict the least recently used responses beyond the size limit", async () => {
+    const { calls, fetch } = createCountingFetch();
+    const client = new ExtendedTestableClient({ fetch, cache: { maxEntries: 2 } });
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/2");
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/3");
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/2");
+
+    expect(calls.map((call) => call.url.split("/").pop())).toEqual(["1", "2", "3", "2"]);
+  });
+
+  it("should invalidate responses explicitly", async () => {
+    const { calls, fetch } = createCountingFetch();
+    const client = new ExtendedTestableClient({ fetch, cache: true });
+    const urls = ["https://api.bentley.com/itwins/1", "https://api.bentley.com/itwins/2"];
+
+    for (const url of urls) {
+      await client.testSendGenericAPIRequest("test-token", "GET", url);
+    }
+    client.invalidate("https://api.bentley.com/itwins/1");
+    for (const url of urls) {
+      await client.testSendGenericAPIRequest("test-token", "GET", url);
+    }
+    client.invalidate((url) => url.endsWith("/2"));
+    await client.testSendGenericAPIRequest("test-token", "GET", urls[1]);
+    client.invalidate();
+    await client.testSendGenericAPIRequest("test-token", "GET", urls[0]);
+
+    expect(calls.map((call) => call.url.split("/").pop())).toEqual(["1", "2", "1", "2", "1"]);
+  });
+
+  it("should invalidate the modified resource, its sub-resources and its collection after a mutation", async () => {
+    const calls: Array<{ url: string; method?: string }> = [];
+    const client = new ExtendedTestableClient({
+      cache: true,
+      fetch: async (url, init) => {
+        calls.push({ url, method: init.method });
+        return Response.json({});
+      },
+    });
+    const cachedUrls = [
+      "https://api.bentley.com/itwins/1",
+      "https://api.bentley.com/itwins/1/repositories",
+      "https://api.bentley.com/itwins?$top=10",
+      "https://api.bentley.com/itwins/2",
+    ];
+
+    for (const url of cachedUrls) {
+      await client.testSendGenericAPIRequest("test-token", "GET", url);
+    }
+    await client.testSendGenericAPIRequest("test-token", "PATCH", "https://api.bentley.com/itwins/1", { displayName: "New" });
+    for (const url of cachedUrls) {
+      await client.testSendGenericAPIRequest("test-token", "GET", url);
+    }
+
+    expect(calls.slice(5).map((call) => call.url)).toEqual(cachedUrls.slice(0, 3));
+  });
+
+  it("should keep cached responses when a mutation fails", async () => {
+    const calls: string[] = [];
+    const client = new ExtendedTestableClient({
+      cache: true,
+      fetch: async (_url, init) => {
+        calls.push(init.method!);
+        return init.method === "DELETE"
+          ? Response.json({ error: { code: "Forbidden", message: "No access" } }, { status: 403 })
+          : Response.json({});
+      },
+    });
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    await client.testSendGenericAPIRequest("test-token", "DELETE", "https://api.bentley.com/itwins/1");
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+
+    expect(calls).toEqual(["GET", "DELETE"]);
+  });
+});
+
+describe("BaseBentleyAPIClient - request coalescing", () => {
+  /**
+   * Creates a fetch whose responses are released manually
+   */
+  function createDeferredFetch() {
+    const calls: Array<{ url: string; init: RequestInit; respond: (body: unknown) => void }> = [];
+    const fetch = vi.fn(
+      async (url: string, init: RequestInit) =>
+        new Promise<Response>((resolve, reject) => {
+          init.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+          calls.push({ url, init, respond: (body) => resolve(Response.json(body)) });
+        })
+    );
+    return { calls, fetch };
+  }
+
+  it("should send one request per call by default", async () => {
+    const { calls, fetch } = createDeferredFetch();
+    const client = new ExtendedTestableClient({ fetch });
+
+    const first = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    const second = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    await vi.waitFor(() => expect(calls).toHaveLength(2));
+    calls.forEach((call) => call.respond({}));
+    await Promise.all([first, second]);
+  });
+
+  it("should share one request between concurrent identical GET requests", async () => {
+    const { calls, fetch } = createDeferredFetch();
+    const client = new ExtendedTestableClient({ fetch, coalesceRequests: true });
+
+    const first = client.testSendGenericAPIRequest<{ iTwin: { id: string } }>("test-token", "GET", "https://api.bentley.com/itwins/1");
+    const second = client.testSendGenericAPIRequest<{ iTwin: { id: string } }>("test-token", "GET", "https://api.bentley.com/itwins/1");
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    calls[0].respond({ iTwin: { id: "1" } });
+    const [firstResult, secondResult] = await Promise.all([first, second]);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(firstResult.data).toEqual({ iTwin: { id: "1" } });
+    expect(secondResult.data).toEqual(firstResult.data);
+    expect(secondResult.data).not.toBe(firstResult.data);
+    expect(firstResult.meta!.coalesced).toBeUndefined();
+    expect(secondResult.meta!.coalesced).toBe(true);
+  });
+
+  it("should send a new request once the shared request completed", async () => {
+    const { calls, fetch } = createDeferredFetch();
+    const client = new ExtendedTestableClient({ fetch, coalesceRequests: true });
+
+    const first = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    calls[0].respond({});
+    await first;
+    const second = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    await vi.waitFor(() => expect(calls).toHaveLength(2));
+    calls[1].respond({});
+    await second;
+  });
+
+  it("should not share requests with different tokens, headers or methods", async () => {
+    const { calls, fetch } = createDeferredFetch();
+    const client = new ExtendedTestableClient({ fetch, coalesceRequests: true });
+    const url = "https://api.bentley.com/itwins/1";
+
+    const pending = [
+      client.testSendGenericAPIRequest("token-a", "GET", url),
+      client.testSendGenericAPIRequest("token-b", "GET", url),
+      client.testSendGenericAPIRequest("token-a", "GET", url, undefined, { prefer: "return=representation" }),
+      client.testSendGenericAPIRequest("token-a", "DELETE", url),
+      client.testSendGenericAPIRequest("token-a", "DELETE", url),
+      client.testSendGenericAPIRequest("token-a", "GET", url, undefined, Object.fromEntries([["Prefer", "return=representation"]])),
+    ];
+    await vi.waitFor(() => expect(calls).toHaveLength(5));
+    calls.forEach((call) => call.respond({}));
+    await Promise.all(pending);
+
+    expect(fetch).toHaveBeenCalledTimes(5);
+  });
+
+  it("should let one caller abort without cancelling the shared request", async () => {
+    const { calls, fetch } = createDeferredFetch();
+    const client = new ExtendedTestableClient({ fetch, coalesceRequests: true });
+    const controller = new AbortController();
+
+    const first = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    const second = client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/itwins/1",
+      undefined,
+      undefined,
+      false,
+      { signal: controller.signal }
+    );
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    controller.abort();
+    const secondResult = await second;
+    calls[0].respond({ iTwin: { id: "1" } });
+    const firstResult = await first;
+
+    expect(secondResult.status).toBe(499);
+    expect(secondResult.error!.code).toBe("RequestAborted");
+    expect(secondResult.meta).toMatchObject({ attempts: 0, coalesced: true });
+    expect(calls[0].init.signal!.aborted).toBe(false);
+    expect(firstResult.data).toEqual({ iTwin: { id: "1" } });
+  });
+
+  it("should abort the shared request once every caller aborted", async () => {
+    const { calls, fetch } = createDeferredFetch();
+    const client = new ExtendedTestableClient({ fetch, coalesceRequests: true });
+    const controller = new AbortController();
+
+    const first = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1", undefined, undefined, false, { signal: controller.signal });
+    const second = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1", undefined, undefined, false, { signal: controller.signal });
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    controller.abort();
+    const results = await Promise.all([first, second]);
+
+    expect(results.map((result) => result.error!.code)).toEqual(["RequestAborted", "RequestAborted"]);
+    expect(calls[0].init.signal!.aborted).toBe(true);
+
+    const third = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    await vi.waitFor(() => expect(calls).toHaveLength(2));
+    calls[1].respond({});
+    expect((await third).status).toBe(200);
+  });
+
+  it("should time out callers individually", async () => {
+    vi.useFakeTimers();
+    try {
+      const { calls, fetch } = createDeferredFetch();
+      const client = new ExtendedTestableClient({ fetch, coalesceRequests: true });
+
+      const first = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+      const second = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1", undefined, undefined, false, { timeoutMs: 100 });
+      await vi.advanceTimersByTimeAsync(100);
+      const secondResult = await second;
+      calls[0].respond({});
+
+      expect(secondResult.status).toBe(408);
+      expect(secondResult.error!.code).toBe("RequestTimeout");
+      expect((await first).status).toBe(200);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("BaseBentleyAPIClient - rate limiting", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Creates a fetch whose responses are released manually, in call order
+   */
+  function createDeferredFetch() {
+    const calls: Array<{ url: string; respond: () => void }> = [];
+    const fetch = vi.fn(
+      async (url: string) =>
+        new Promise<Response>((resolve) => {
+          calls.push({ url, respond: () => resolve(Response.json({})) });
+        })
+    );
+    return { calls, fetch };
+  }
+
+  it("should report an empty queue without rate limit", () => {
+    const client = new ExtendedTestableClient();
+
+    expect(client.getQueueStats()).toEqual({
+      queued: 0,
+      queuedByPriority: { high: 0, normal: 0, low: 0 },
+      inFlight: 0,
+    });
+  });
+
+  it("should queue requests beyond the maximum in flight", async () => {
+    const { calls, fetch } = createDeferredFetch();
+    const client = new ExtendedTestableClient({ fetch, rateLimit: { maxConcurrent: 2 } });
+
+    const pending = [1, 2, 3].map(async (id) =>
+      client.testSendGenericAPIRequest("test-token", "GET", `https://api.bentley.com/itwins/${id}`)
+    );
+    await vi.waitFor(() => expect(calls).toHaveLength(2));
+
+    expect(client.getQueueStats()).toMatchObject({ queued: 1, inFlight: 2 });
+
+    calls[0].respond();
+    await vi.waitFor(() => expect(calls).toHaveLength(3));
+    expect(client.getQueueStats()).toMatchObject({ queued: 0, inFlight: 2 });
+
+    calls.slice(1).forEach((call) => call.respond());
+    await Promise.all(pending);
+    expect(client.getQueueStats()).toMatchObject({ queued: 0, inFlight: 0 });
+  });
+
+  it("should start queued requests by priority, then in arrival order", async () => {
+    const { calls, fetch } = createDeferredFetch();
+    const client = new ExtendedTestableClient({ fetch, rateLimit: { maxConcurrent: 1 } });
+    const send = async (name: string, priority?: "high" | "normal" | "low") =>
+      client.testSendGenericAPIRequest("test-token", "GET", `https://api.bentley.com/${name}`, undefined, undefined, false, { priority });
+
+    const pending = [send("first"), send("low", "low"), send("normal"), send("high", "high"), send("normal-2", "normal")];
+    await vi.waitFor(() => expect(client.getQueueStats().queued).toBe(4));
+
+    expect(client.getQueueStats().queuedByPriority).toEqual({ high: 1, normal: 2, low: 1 });
+
+    for (let index = 0; index < 5; index++) {
+      await vi.waitFor(() => expect(calls).toHaveLength(index + 1));
+      calls[index].respond();
+    }
+    await Promise.all(pending);
+
+    expect(calls.map((call) => call.url.split("/").pop())).toEqual(["first", "high", "normal", "normal-2", "low"]);
+  });
+
+  it("should limit the request rate with a token bucket", async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn(async () => Response.json({}));
+    const client = new ExtendedTestableClient({ fetch, rateLimit: { requestsPerSecond: 2, burst: 2 } });
+
+    const pending = [1, 2, 3, 4, 5].map(async (id) =>
+      client.testSendGenericAPIRequest("test-token", "GET", `https://api.bentley.com/itwins/${id}`)
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetch).toHaveBeenCalledTimes(5);
+    await Promise.all(pending);
+  });
+
+  it("should apply the limit to every retry attempt", async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn(async () => new Response(null, { status: 503 }));
+    const client = new ExtendedTestableClient({
+      fetch,
+      retry: { maxAttempts: 3, baseDelayMs: 0, jitter: false },
+      rateLimit: { requestsPerSecond: 1 },
+    });
+
+    const pending = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    const result = await pending;
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(result.attempts).toBe(3);
+  });
+
+  it("should remove aborted requests from the queue", async () => {
+    const { calls, fetch } = createDeferredFetch();
+    const client = new ExtendedTestableClient({ fetch, rateLimit: { maxConcurrent: 1 } });
+    const controller = new AbortController();
+
+    const first = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    const queued = client.testSendGenericAPIRequest(
+      "test-token",
+      "GET",
+      "https://api.bentley.com/itwins/2",
+      undefined,
+      undefined,
+      false,
+      { signal: controller.signal }
+    );
+    await vi.waitFor(() => expect(client.getQueueStats().queued).toBe(1));
+    controller.abort();
+    const queuedResult = await queued;
+
+    expect(queuedResult.error!.code).toBe("RequestAborted");
+    expect(client.getQueueStats()).toMatchObject({ queued: 0, inFlight: 1 });
+
+    calls[0].respond();
+    await first;
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should time out requests waiting in the queue", async () => {
+    vi.useFakeTimers();
+    const { calls, fetch } = createDeferredFetch();
+    const client = new ExtendedTestableClient({ fetch, rateLimit: { maxConcurrent: 1 } });
+
+    const first = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    const queued = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/2", undefined, undefined, false, { timeoutMs: 100 });
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect((await queued).error!.code).toBe("RequestTimeout");
+    calls[0].respond();
+    await first;
+  });
+
+  it("should hold the slot until the response body was read", async () => {
+    let closeBody: () => void = () => undefined;
+    const fetch = vi
+      .fn<(url: string) => Promise<Response>>()
+      .mockImplementationOnce(async () => {
+        const body = new ReadableStream<Uint8Array>({
+          start: (controller) => {
+            controller.enqueue(new TextEncoder().encode('{"id":"1"}'));
+            closeBody = () => controller.close();
+          },
+        });
+        return new Response(body, { headers: { "content-type": "application/json" } });
+      })
+      .mockImplementation(async () => Response.json({}));
+    const client = new ExtendedTestableClient({ fetch, rateLimit: { maxConcurrent: 1 } });
+
+    const first = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/1");
+    const second = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins/2");
+    await vi.waitFor(() => expect(client.getQueueStats()).toMatchObject({ queued: 1, inFlight: 1 }));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    closeBody();
+    expect((await first).data).toEqual({ id: "1" });
+    await second;
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(client.getQueueStats()).toMatchObject({ queued: 0, inFlight: 0 });
+  });
+
+  it("should take the half-open trial permit only once a slot is granted", async () => {
+    let respondToBlocking: () => void = () => undefined;
+    const fetch = vi.fn(async (url: string) => {
+      if (url.startsWith("https://qa-api")) {
+        return new Promise<Response>((resolve) => (respondToBlocking = () => resolve(Response.json({}))));
+      }
+      return fetch.mock.calls.length <= 2 ? new Response(null, { status: 500 }) : Response.json({});
+    });
+    const client = new ExtendedTestableClient({
+      fetch,
+      rateLimit: { maxConcurrent: 1 },
+      circuitBreaker: { minimumRequests: 2, cooldownMs: 20 },
+    });
+    const send = async (url: string, priority?: "high" | "low") =>
+      client.testSendGenericAPIRequest("test-token", "GET", url, undefined, undefined, false, { priority });
+
+    await send("https://api.bentley.com/itwins");
+    await send("https://api.bentley.com/itwins");
+    expect(client.getCircuitState("api.bentley.com")).toBe("open");
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    const blocking = send("https://qa-api.bentley.com/itwins");
+    await vi.waitFor(() => expect(client.getQueueStats().inFlight).toBe(1));
+    const low = send("https://api.bentley.com/itwins/low", "low");
+    const high = send("https://api.bentley.com/itwins/high", "high");
+    await vi.waitFor(() => expect(client.getQueueStats().queued).toBe(2));
+    respondToBlocking();
+    await blocking;
+
+    expect((await high).status).toBe(200);
+    expect((await low).status).toBe(200);
+    expect(client.getCircuitState("api.bentley.com")).toBe("closed");
+  });
+});
+
+describe("BaseBentleyAPIClient - circuit breaker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Creates a fetch answering with the status codes of a script, the last one repeated
+   */
+  function createScriptedFetch(statuses: number[]) {
+    return vi.fn(async () => {
+      const status = statuses.length > 1 ? statuses.shift()! : statuses[0];
+      return status < 400 ? Response.json({}, { status }) : new Response(null, { status });
+    });
+  }
+
+  it("should open after the failure rate threshold and fail fast", async () => {
+    const changes: CircuitStateChange[] = [];
+    const fetch = createScriptedFetch([200, 500, 500, 500]);
+    const client = new ExtendedTestableClient({
+      fetch,
+      circuitBreaker: { minimumRequests: 4, windowSize: 4, failureRateThreshold: 0.75, onStateChange: (change) => changes.push(change) },
+    });
+
+    for (let index = 0; index < 4; index++) {
+      await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+    }
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(fetch).toHaveBeenCalledTimes(4);
+    expect(result.status).toBe(503);
+    expect(isCircuitOpenError(result.error)).toBe(true);
+    expect(result.error).toMatchObject({ category: "circuit-open", host: "api.bentley.com" });
+    expect(client.getCircuitState("api.bentley.com")).toBe("open");
+    expect(changes).toEqual([{ host: "api.bentley.com", from: "closed", to: "open" }]);
+  });
+
+  it("should not open before the minimum number of requests", async () => {
+    const fetch = createScriptedFetch([500]);
+    const client = new ExtendedTestableClient({ fetch, circuitBreaker: { minimumRequests: 5 } });
+
+    for (let index = 0; index < 4; index++) {
+      await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+    }
+
+    expect(client.getCircuitState("api.bentley.com")).toBe("closed");
+  });
+
+  it("should track circuits per host", async () => {
+    const fetch = vi.fn(async (url: string) =>
+      url.startsWith("https://qa-api") ? new Response(null, { status: 503 }) : Response.json({})
+    );
+    const client = new ExtendedTestableClient({ fetch, circuitBreaker: { minimumRequests: 2 } });
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://qa-api.bentley.com/itwins");
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://qa-api.bentley.com/itwins");
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(client.getCircuitState("qa-api.bentley.com")).toBe("open");
+    expect(client.getCircuitState("api.bentley.com")).toBe("closed");
+    expect(result.status).toBe(200);
+  });
+
+  it("should close after a successful half-open trial once the cooldown elapsed", async () => {
+    vi.useFakeTimers();
+    const changes: CircuitStateChange[] = [];
+    const fetch = createScriptedFetch([500, 500, 200]);
+    const client = new ExtendedTestableClient({
+      fetch,
+      circuitBreaker: { minimumRequests: 2, cooldownMs: 1000, onStateChange: (change) => changes.push(change) },
+    });
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+    vi.advanceTimersByTime(400);
+    const rejected = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+    vi.advanceTimersByTime(600);
+    const trial = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(isCircuitOpenError(rejected.error) && rejected.error.retryAfterMs).toBe(600);
+    expect(trial.status).toBe(200);
+    expect(client.getCircuitState("api.bentley.com")).toBe("closed");
+    expect(changes.map((change) => change.to)).toEqual(["open", "half-open", "closed"]);
+  });
+
+  it("should open again when a half-open trial fails and reject other requests meanwhile", async () => {
+    vi.useFakeTimers();
+    let respondToTrial: (response: Response) => void = () => undefined;
+    const fetch = vi
+      .fn<(url: string) => Promise<Response>>()
+      .mockResolvedValueOnce(new Response(null, { status: 502 }))
+      .mockResolvedValueOnce(new Response(null, { status: 502 }))
+      .mockImplementationOnce(async () => new Promise((resolve) => (respondToTrial = resolve)));
+    const client = new ExtendedTestableClient({ fetch, circuitBreaker: { minimumRequests: 2, cooldownMs: 1000 } });
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+    vi.advanceTimersByTime(1000);
+    const trial = client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(3));
+    const concurrent = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+    respondToTrial(new Response(null, { status: 500 }));
+    await trial;
+
+    expect(concurrent.error!.code).toBe("CircuitOpen");
+    expect(client.getCircuitState("api.bentley.com")).toBe("open");
+  });
+
+  it("should count network errors as failures but not calls cancelled by the caller", async () => {
+    const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+      if (init.signal?.aborted) {
+        throw new DOMException("Aborted", "AbortError");
+      }
+      throw new TypeError("fetch failed");
+    });
+    const client = new ExtendedTestableClient({ fetch, circuitBreaker: { minimumRequests: 2 } });
+    const controller = new AbortController();
+    controller.abort();
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins", undefined, undefined, false, { signal: controller.signal });
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+    expect(client.getCircuitState("api.bentley.com")).toBe("closed");
+
+    await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+    expect(client.getCircuitState("api.bentley.com")).toBe("open");
+  });
+
+  it("should stop retrying once the circuit opens", async () => {
+    const fetch = createScriptedFetch([503]);
+    const client = new ExtendedTestableClient({
+      fetch,
+      retry: { maxAttempts: 5, baseDelayMs: 0, jitter: false },
+      circuitBreaker: { minimumRequests: 2 },
+    });
+
+    const result = await client.testSendGenericAPIRequest("test-token", "GET", "https://api.bentley.com/itwins");
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(result.error!.code).toBe("CircuitOpen");
   });
 });
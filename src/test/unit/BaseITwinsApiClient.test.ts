@@ -5,6 +5,7 @@
 import { beforeEach, describe, expect, it } from "vitest";
 import { BaseITwinsApiClient } from "../../BaseITwinsApiClient";
 import { ITwinsClient } from "../../iTwinsClient";
+import type { ITwinsGetQueryArg } from "../../types/ITwinsQueryArgs";
 
 /**
  * Test subclass to expose protected methods for unit testing
@@ -150,6 +151,34 @@ describe("BaseITwinsApiClient - Query Parameter Building", () => {
       expect(result).toContain("$select=id%2CdisplayName");
       expect(result).toContain("$orderBy=createdDateTime%20desc");
     });
+
+    it("should join multi-key orderings with commas", () => {
+      const orderby: ITwinsGetQueryArg["orderby"] = ["displayName", "createdDateTime desc", "number asc"];
+      const result = client.testGetQueryStringArg(
+        (BaseITwinsApiClient as any).ITwinsGetQueryParamMapping,
+        { orderby, top: 10 }
+      );
+
+      expect(result).toBe(`$top=10&$orderby=${encodeURIComponent("displayName,createdDateTime desc,number asc")}`);
+    });
+
+    it("should keep string orderings as they are", () => {
+      const result = client.testGetQueryStringArg(
+        (BaseITwinsApiClient as any).ITwinsGetQueryParamMapping,
+        { orderby: "displayName desc" }
+      );
+
+      expect(result).toBe(`$orderby=${encodeURIComponent("displayName desc")}`);
+    });
+
+    it("should reject unsupported sort fields and directions at compile time", () => {
+      // @ts-expect-error image is not a sortable property
+      const unsupportedField: ITwinsGetQueryArg["orderby"] = ["image"];
+      // @ts-expect-error descending is not a sort direction
+      const unsupportedDirection: ITwinsGetQueryArg["orderby"] = ["displayName descending"];
+
+      expect([unsupportedField, unsupportedDirection]).toHaveLength(2);
+    });
   });
 
   describe("Base URL Configuration", () => {
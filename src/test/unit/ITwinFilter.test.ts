@@ -0,0 +1,175 @@
+/*---------------------------------------------------------------------------------------------
+ * Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+ * See LICENSE.md in the project root for license terms and full copyright notice.
+ *--------------------------------------------------------------------------------------------*/
+import { describe, expect, it } from "vitest";
+import { ITwinFilter } from "../../ITwinFilter";
+import { ITwinsClient } from "../../iTwinsClient";
+import { isGuid } from "../../QueryArgValidation";
+
+describe("ITwinFilter", () => {
+  const parentId = "78202ffd-272b-4207-a7ad-7d2b1af5dafc";
+
+  describe("comparisons", () => {
+    it("should write every comparison operator", () => {
+      expect(ITwinFilter.eq("status", "Active").toString()).toBe("status eq 'Active'");
+      expect(ITwinFilter.ne("subClass", "Asset").toString()).toBe("subClass ne 'Asset'");
+      expect(ITwinFilter.gt("latitude", 40.5).toString()).toBe("latitude gt 40.5");
+      expect(ITwinFilter.ge("longitude", -73).toString()).toBe("longitude ge -73");
+      expect(ITwinFilter.lt("displayName", "M").toString()).toBe("displayName lt 'M'");
+      expect(ITwinFilter.le("number", "100").toString()).toBe("number le '100'");
+    });
+
+    it("should compare with null", () => {
+      expect(ITwinFilter.eq("parentId", null).toString()).toBe("parentId eq null");
+      expect(ITwinFilter.ne("parentId", null).toString()).toBe("parentId ne null");
+    });
+
+    it("should write an in list", () => {
+      expect(ITwinFilter.in("status", ["Active", "Trial"]).toString()).toBe("status in ('Active','Trial')");
+    });
+
+    it("should reject an empty in list", () => {
+      expect(() => ITwinFilter.in("status", [])).toThrow(RangeError);
+    });
+
+    it("should reject numbers that are not finite", () => {
+      expect(() => ITwinFilter.gt("latitude", NaN)).toThrow(RangeError);
+      expect(() => ITwinFilter.lt("longitude", Infinity)).toThrow(RangeError);
+    });
+  });
+
+  describe("literals", () => {
+    it("should double single quotes in strings", () => {
+      expect(ITwinFilter.eq("displayName", "O'Hare's 'Site'").toString()).toBe("displayName eq 'O''Hare''s ''Site'''");
+    });
+
+    it("should keep URL-sensitive characters as they are", () => {
+      expect(ITwinFilter.eq("displayName", "A&B=C+D").toString()).toBe("displayName eq 'A&B=C+D'");
+    });
+
+    it("should quote valid GUIDs", () => {
+      expect(ITwinFilter.eq("parentId", parentId).toString()).toBe(`parentId eq '${parentId}'`);
+      expect(ITwinFilter.in("id", [parentId, parentId.toUpperCase()]).toString()).toBe(
+        `id in ('${parentId}','${parentId.toUpperCase()}')`
+      );
+    });
+
+    it("should tell GUIDs apart", () => {
+      expect(isGuid(parentId)).toBe(true);
+      expect(isGuid(parentId.toUpperCase())).toBe(true);
+      expect(isGuid(`{${parentId}}`)).toBe(false);
+      expect(isGuid("not-a-guid")).toBe(false);
+    });
+
+    it("should reject invalid GUIDs", () => {
+      expect(() => ITwinFilter.eq("iTwinAccountId", "not-a-guid")).toThrow(RangeError);
+      expect(() => ITwinFilter.eq("id", `${parentId}' or '1' eq '1`)).toThrow(RangeError);
+    });
+
+    it("should write dates as unquoted ISO 8601 timestamps", () => {
+      expect(ITwinFilter.ge("createdDateTime", new Date(Date.UTC(2023, 0, 1))).toString()).toBe(
+        "createdDateTime ge 2023-01-01T00:00:00.000Z"
+      );
+      expect(ITwinFilter.lt("lastModifiedDateTime", "2024-06-30T12:00:00+02:00").toString()).toBe(
+        "lastModifiedDateTime lt 2024-06-30T12:00:00+02:00"
+      );
+      expect(ITwinFilter.eq("createdDateTime", "2023-01-01").toString()).toBe("createdDateTime eq 2023-01-01");
+    });
+
+    it("should reject invalid dates", () => {
+      expect(() => ITwinFilter.ge("createdDateTime", "yesterday")).toThrow(RangeError);
+      expect(() => ITwinFilter.ge("createdDateTime", "2023-13-45")).toThrow(RangeError);
+      expect(() => ITwinFilter.ge("createdDateTime", new Date("invalid"))).toThrow(RangeError);
+      expect(() => ITwinFilter.ge("createdDateTime", "2023-01-01 or 1 eq 1")).toThrow(RangeError);
+    });
+  });
+
+  describe("string functions", () => {
+    it("should write startswith, contains and endswith", () => {
+      expect(ITwinFilter.startswith("number", "ABC").toString()).toBe("startswith(number,'ABC')");
+      expect(ITwinFilter.contains("displayName", "it's").toString()).toBe("contains(displayName,'it''s')");
+      expect(ITwinFilter.endswith("type", "Bridge").toString()).toBe("endswith(type,'Bridge')");
+    });
+  });
+
+  describe("logical operators", () => {
+    it("should combine filters with and, or and not", () => {
+      const filter = ITwinFilter.and(
+        ITwinFilter.eq("parentId", parentId),
+        ITwinFilter.or(ITwinFilter.startswith("number", "ABC"), ITwinFilter.startswith("displayName", "ABC")),
+        ITwinFilter.not(ITwinFilter.eq("status", "Inactive"))
+      );
+
+      expect(filter.toString()).toBe(
+        `parentId eq '${parentId}' and (startswith(number,'ABC') or startswith(displayName,'ABC')) and not (status eq 'Inactive')`
+      );
+    });
+
+    it("should not parenthesize operands binding more strongly", () => {
+      const filter = ITwinFilter.or(
+        ITwinFilter.and(ITwinFilter.eq("status", "Active"), ITwinFilter.eq("subClass", "Asset")),
+        ITwinFilter.eq("status", "Trial")
+      );
+
+      expect(filter.toString()).toBe("status eq 'Active' and subClass eq 'Asset' or status eq 'Trial'");
+    });
+
+    it("should parenthesize hand-written expressions when combined", () => {
+      const filter = ITwinFilter.and(
+        ITwinFilter.expression("status eq 'Active' or status eq 'Trial'"),
+        ITwinFilter.eq("subClass", "Asset")
+      );
+
+      expect(filter.toString()).toBe("(status eq 'Active' or status eq 'Trial') and subClass eq 'Asset'");
+    });
+
+    it("should return a single operand unchanged", () => {
+      const filter = ITwinFilter.eq("status", "Active");
+
+      expect(ITwinFilter.and(filter)).toBe(filter);
+    });
+  });
+
+  describe("requests", () => {
+    /**
+     * Creates a client recording the requests it sends
+     */
+    function createClient() {
+      const requests: { url: string; init: RequestInit }[] = [];
+      const client = new ITwinsClient({
+        fetch: async (url, init) => {
+          requests.push({ url, init });
+          return Response.json({});
+        },
+      });
+      return { client, requests };
+    }
+
+    it("should send a filter as the $filter query parameter of getITwins", async () => {
+      const { client, requests } = createClient();
+      const filter = ITwinFilter.and(ITwinFilter.in("status", ["Active", "Trial"]), ITwinFilter.contains("displayName", "A&B"));
+
+      await client.getITwins("test-token", { filter, top: 10 });
+
+      expect(requests[0].url).toContain(
+        `$filter=${encodeURIComponent("status in ('Active','Trial') and contains(displayName,'A&B')")}`
+      );
+      expect(requests[0].url).toContain("$top=10");
+    });
+
+    it("should send a filter as a string in the createExport body", async () => {
+      const { client, requests } = createClient();
+
+      await client.createExport("test-token", {
+        outputFormat: "Csv",
+        filter: ITwinFilter.eq("status", "Active"),
+      });
+
+      expect(JSON.parse(requests[0].init.body as string)).toEqual({
+        outputFormat: "Csv",
+        filter: "status eq 'Active'",
+      });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/*---------------------------------------------------------------------------------------------
+ * Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+ * See LICENSE.md in the project root for license terms and full copyright notice.
+ *--------------------------------------------------------------------------------------------*/
+import { describe, expect, it } from "vitest";
+import { ITwinsClient } from "../../iTwinsClient";
+import type { ITwinRepresentation } from "../../types/ITwin";
+import type { ITwinHierarchyNode } from "../../types/ITwinHierarchy";
+
+describe("ITwinHierarchy", () => {
+  const client = new ITwinsClient();
+
+  /**
+   * Creates an iTwin in representation mode with a short id
+   */
+  function iTwin(id: string, parentId?: string): ITwinRepresentation {
+    return { id, displayName: `iTwin ${id}`, class: "Endeavor", subClass: "Project", type: "Site", parentId };
+  }
+
+  /**
+   * Lists the ids of nodes
+   */
+  function ids(nodes: ITwinHierarchyNode[]): string[] {
+    return nodes.map((node) => node.iTwin.id);
+  }
+
+  it("should arrange iTwins under their parents", () => {
+    const hierarchy = client.buildHierarchyTree([iTwin("d", "b"), iTwin("b", "a"), iTwin("a"), iTwin("c", "a"), iTwin("e")]);
+
+    expect(ids(hierarchy.roots)).toEqual(["a", "e"]);
+    expect(ids(hierarchy.roots[0].children)).toEqual(["b", "c"]);
+    expect(ids(hierarchy.roots[0].children[0].children)).toEqual(["d"]);
+    expect(hierarchy.nodes.map((node) => [node.iTwin.id, node.depth])).toEqual([
+      ["a", 0],
+      ["e", 0],
+      ["b", 1],
+      ["c", 1],
+      ["d", 2],
+    ]);
+    expect(hierarchy.issues).toEqual([]);
+  });
+
+  it("should list the nodes of every root level by level", () => {
+    const hierarchy = client.buildHierarchyTree([
+      iTwin("a"),
+      iTwin("b", "a"),
+      iTwin("c", "b"),
+      iTwin("d", "c"),
+      iTwin("e"),
+      iTwin("f", "e"),
+    ]);
+
+    expect(hierarchy.nodes.map((node) => [node.iTwin.id, node.depth])).toEqual([
+      ["a", 0],
+      ["e", 0],
+      ["b", 1],
+      ["f", 1],
+      ["c", 2],
+      ["d", 3],
+    ]);
+  });
+
+  it("should keep duplicated iTwins once", () => {
+    const hierarchy = client.buildHierarchyTree([iTwin("a"), iTwin("b", "a"), iTwin("b", "a")]);
+
+    expect(ids(hierarchy.nodes)).toEqual(["a", "b"]);
+  });
+
+  it("should make iTwins whose parent is missing roots and report them", () => {
+    const hierarchy = client.buildHierarchyTree([iTwin("b", "a"), iTwin("c", "b")]);
+
+    expect(ids(hierarchy.roots)).toEqual(["b"]);
+    expect(ids(hierarchy.roots[0].children)).toEqual(["c"]);
+    expect(hierarchy.issues).toEqual([
+      { code: "MissingParent", iTwinId: "b", parentId: "a", message: "The parent a of iTwin b was not found." },
+    ]);
+  });
+
+  it("should break cycles and keep every iTwin in the tree", () => {
+    const hierarchy = client.buildHierarchyTree([iTwin("a", "c"), iTwin("b", "a"), iTwin("c", "b"), iTwin("d", "c"), iTwin("e", "e")]);
+
+    expect(hierarchy.issues.map((issue) => [issue.code, issue.iTwinId, issue.parentId])).toEqual([
+      ["Cycle", "a", "c"],
+      ["Cycle", "e", "e"],
+    ]);
+    expect(ids(hierarchy.roots)).toEqual(["a", "e"]);
+    expect(hierarchy.nodes.map((node) => [node.iTwin.id, node.depth])).toEqual([
+      ["a", 0],
+      ["e", 0],
+      ["b", 1],
+      ["c", 2],
+      ["d", 3],
+    ]);
+  });
+});
@@ -2,8 +2,12 @@
  * Copyright (c) Bentley Systems, Incorporated. All rights reserved.
  * See LICENSE.md in the project root for license terms and full copyright notice.
  *--------------------------------------------------------------------------------------------*/
-import { beforeEach, describe, expect, it } from "vitest";
+import { beforeEach, describe, expect, expectTypeOf, it } from "vitest";
+import { ITwinFilter } from "../../ITwinFilter";
 import { ITwinsClient } from "../../iTwinsClient";
+import { BentleyAPIResponseError, isInvalidQueryArgumentError, isPreconditionFailedError } from "../../types/CommonApiTypes";
+import type { PreconditionFailedError } from "../../types/CommonApiTypes";
+import type { ITwinMinimal, ITwinRepresentation } from "../../types/ITwin";
 import type { ITwinsQueryArg } from "../../types/ITwinsQueryArgs";
 
 /**
@@ -21,6 +25,14 @@ class TestableiTwinsClient extends ITwinsClient {
   public testGetQueryScopeHeaders(queryScope?: string) {
     return (this as any).getQueryScopeHeaders(queryScope);
   }
+
+  public get testBaseUrl(): string {
+    return this._baseUrl;
+  }
+
+  public get testMaxRedirects(): number {
+    return this._maxRedirects;
+  }
 }
 
 describe("ITwinsClient - Header Generation", () => {
@@ -263,3 +275,1204 @@ describe("ITwinsClient - Header Generation", () => {
     });
   });
 });
+
+describe("ITwinsClient - Constructor Options", () => {
+  it("should keep supporting positional url and max redirects", () => {
+    const client = new TestableiTwinsClient("https://dev-api.bentley.com/itwins", 9);
+
+    expect(client.testBaseUrl).toBe("https://dev-api.bentley.com/itwins");
+    expect(client.testMaxRedirects).toBe(9);
+  });
+
+  it("should read base url and max redirects from an options object", () => {
+    const client = new TestableiTwinsClient({
+      baseUrl: "https://qa-api.bentley.com/itwins",
+      maxRedirects: 2,
+    });
+
+    expect(client.testBaseUrl).toBe("https://qa-api.bentley.com/itwins");
+    expect(client.testMaxRedirects).toBe(2);
+  });
+
+  it("should send public method requests through the injected fetch", async () => {
+    const requests: { url: string; init: RequestInit }[] = [];
+    const client = new ITwinsClient({
+      baseUrl: "https://api.bentley.com/itwins",
+      defaultHeaders: { "x-correlation-id": "abc" },
+      fetch: async (url, init) => {
+        requests.push({ url, init });
+        return Response.json({ iTwin: { id: "123" } });
+      },
+    });
+
+    const response = await client.getITwin("test-token", "123");
+
+    expect(response.status).toBe(200);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe("https://api.bentley.com/itwins/123");
+    expect((requests[0].init.headers as Record<string, string>)["x-correlation-id"]).toBe("abc");
+  });
+
+  it("should use the access token provider for public methods called without an access token", async () => {
+    const authorizations: string[] = [];
+    const client = new ITwinsClient({
+      accessTokenProvider: async () => "provided-token",
+      fetch: async (_url, init) => {
+        authorizations.push((init.headers as Record<string, string>).authorization);
+        return Response.json({ iTwin: { id: "123" } });
+      },
+    });
+
+    const response = await client.getITwin("", "123");
+
+    expect(response.status).toBe(200);
+    expect(authorizations).toEqual(["provided-token"]);
+  });
+});
+
+describe("ITwinsClient - Request Options", () => {
+  it("should link the caller signal to the fetch signal for public methods", async () => {
+    const controller = new AbortController();
+    const abortedStates: boolean[] = [];
+    const client = new ITwinsClient({
+      fetch: async (_url, init) => {
+        abortedStates.push(init.signal!.aborted);
+        controller.abort();
+        abortedStates.push(init.signal!.aborted);
+        return Response.json({ iTwins: [] });
+      },
+    });
+
+    await client.getITwins("test-token", { top: 5 }, { signal: controller.signal });
+
+    expect(abortedStates).toEqual([false, true]);
+  });
+
+  it("should return RequestAborted for a cancelled public method call", async () => {
+    const client = new ITwinsClient({
+      fetch: async (_url, init) =>
+        new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+        }),
+    });
+    const controller = new AbortController();
+
+    const pending = client.getRepositoryResources("test-token", "iTwinId", "repoId", undefined, "minimal", {
+      signal: controller.signal,
+    });
+    controller.abort();
+    const response = await pending;
+
+    expect(response.error!.code).toBe("RequestAborted");
+  });
+});
+
+describe("ITwinsClient - Optimistic Concurrency", () => {
+  function createClient(response: () => Response) {
+    const requests: { url: string; init: RequestInit }[] = [];
+    const client = new ITwinsClient({
+      fetch: async (url, init) => {
+        requests.push({ url, init });
+        return response();
+      },
+    });
+    return { client, requests };
+  }
+
+  function getHeader(init: RequestInit, name: string): string | undefined {
+    return (init.headers as Record<string, string>)[name];
+  }
+
+  it("should surface the ETag of getITwin and getRepository", async () => {
+    const { client } = createClient(() => Response.json({}, { headers: [["ETag", "W/\"3\""]] }));
+
+    const iTwin = await client.getITwin("test-token", "123", "representation");
+    const repository = await client.getRepository("test-token", "123", "repoId");
+
+    expect(iTwin.etag).toBe("W/\"3\"");
+    expect(repository.etag).toBe("W/\"3\"");
+  });
+
+  it("should send If-Match with updateItwin, updateRepository and deleteItwin", async () => {
+    const { client, requests } = createClient(() => Response.json({}));
+
+    await client.updateItwin("test-token", "123", { displayName: "New" }, { ifMatch: "\"1\"" });
+    await client.updateRepository("test-token", "123", "repoId", { displayName: "New" }, { ifMatch: "\"2\"" });
+    await client.deleteItwin("test-token", "123", { ifMatch: "\"3\"" });
+
+    expect(requests.map((request) => getHeader(request.init, "if-match"))).toEqual(["\"1\"", "\"2\"", "\"3\""]);
+  });
+
+  it("should not send If-Match without a precondition", async () => {
+    const { client, requests } = createClient(() => Response.json({}));
+
+    await client.updateItwin("test-token", "123", { displayName: "New" });
+
+    expect(getHeader(requests[0].init, "if-match")).toBeUndefined();
+  });
+
+  it("should return a typed PreconditionFailed error carrying the current version", async () => {
+    const { client } = createClient(() =>
+      Response.json(
+        { error: { code: "PreconditionFailed", message: "The iTwin was modified." } },
+        { status: 412, headers: [["ETag", "\"4\""]] }
+      )
+    );
+
+    const response = await client.updateItwin("test-token", "123", { displayName: "New" }, { ifMatch: "\"1\"" });
+
+    expect(response.status).toBe(412);
+    expect(isPreconditionFailedError(response.error)).toBe(true);
+    if (isPreconditionFailedError(response.error)) {
+      expect(response.error.currentETag).toBe("\"4\"");
+      expect(response.error.message).toBe("The iTwin was modified.");
+    }
+  });
+
+  it("should return PreconditionFailed for 412 responses without an APIM body", async () => {
+    const { client } = createClient(() => new Response(null, { status: 412 }));
+
+    const response = await client.deleteItwin("test-token", "123", { ifMatch: "\"1\"" });
+
+    expect(response.error!.code).toBe("PreconditionFailed");
+    expect((response.error as PreconditionFailedError).currentETag).toBeUndefined();
+  });
+});
+
+describe("ITwinsClient - Pagination", () => {
+  const baseUrl = "https://api.bentley.com/itwins";
+
+  /**
+   * Creates a page of iTwins linking to the next page when given
+   */
+  function createPage(ids: string[], next?: string): Response {
+    return Response.json(
+      Object.fromEntries([
+        ["iTwins", ids.map((id) => ({ id, displayName: `iTwin ${id}` }))],
+        ["_links", { self: { href: "" }, prev: { href: "" }, next: next ? { href: next } : undefined }],
+      ])
+    );
+  }
+
+  /**
+   * Creates a client serving the given pages by URL
+   */
+  function createClient(pages: Record<string, () => Response>) {
+    const requests: { url: string; init: RequestInit }[] = [];
+    const client = new ITwinsClient({
+      fetch: async (url, init) => {
+        requests.push({ url, init });
+        const page = pages[url];
+        return page ? page() : Response.json({ error: { code: "NotFound", message: "No page" } }, { status: 404 });
+      },
+    });
+    return { client, requests };
+  }
+
+  /**
+   * Collects the items of an async iterable
+   */
+  async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterable) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  it("should iterate over the iTwins of every page following next links", async () => {
+    const { client, requests } = createClient({
+      [`${baseUrl}/?$top=2`]: () => createPage(["1", "2"], `${baseUrl}/?$top=2&$skip=2`),
+      [`${baseUrl}/?$top=2&$skip=2`]: () => createPage(["3", "4"], `${baseUrl}/?$top=2&$skip=4`),
+      [`${baseUrl}/?$top=2&$skip=4`]: () => createPage(["5"]),
+    });
+
+    const iTwins = await collect(client.iterateITwins("test-token", { top: 2 }));
+
+    expect(iTwins.map((iTwin) => iTwin.id)).toEqual(["1", "2", "3", "4", "5"]);
+    expect(requests).toHaveLength(3);
+  });
+
+  it("should send the result mode and query scope headers with every page request", async () => {
+    const { client, requests } = createClient({
+      [`${baseUrl}/?`]: () => createPage(["1"], `${baseUrl}/?$skip=1`),
+      [`${baseUrl}/?$skip=1`]: () => createPage(["2"]),
+    });
+
+    await collect(client.iterateITwins("test-token", { resultMode: "representation", queryScope: "all" }));
+
+    for (const request of requests) {
+      expect(request.init.headers).toMatchObject({
+        "prefer": "return=representation",
+        "x-itwin-query-scope": "all",
+      });
+    }
+  });
+
+  it("should iterate over the page responses", async () => {
+    const { client } = createClient({
+      [`${baseUrl}/?`]: () => createPage(["1", "2"], `${baseUrl}/?$skip=2`),
+      [`${baseUrl}/?$skip=2`]: () => createPage(["3"]),
+    });
+
+    const pages = await collect(client.iteratePages("test-token"));
+
+    expect(pages.map((page) => page.data!.iTwins.length)).toEqual([2, 1]);
+    expect(pages.every((page) => page.status === 200 && page.meta !== undefined)).toBe(true);
+  });
+
+  it("should stop after maxItems, truncating the last page", async () => {
+    const { client, requests } = createClient({
+      [`${baseUrl}/?`]: () => createPage(["1", "2"], `${baseUrl}/?$skip=2`),
+      [`${baseUrl}/?$skip=2`]: () => createPage(["3", "4"], `${baseUrl}/?$skip=4`),
+    });
+
+    const iTwins = await collect(client.iterateITwins("test-token", undefined, { maxItems: 3 }));
+    const pages = await collect(client.iteratePages("test-token", undefined, { maxItems: 3 }));
+
+    expect(iTwins.map((iTwin) => iTwin.id)).toEqual(["1", "2", "3"]);
+    expect(pages.map((page) => page.data!.iTwins.length)).toEqual([2, 1]);
+    expect(requests).toHaveLength(4);
+    expect(await collect(client.iterateITwins("test-token", undefined, { maxItems: 0 }))).toEqual([]);
+  });
+
+  it("should stop on an empty page or a next link already visited", async () => {
+    const { client, requests } = createClient({
+      [`${baseUrl}/?`]: () => createPage(["1"], `${baseUrl}/?$skip=1`),
+      [`${baseUrl}/?$skip=1`]: () => createPage(["2"], `${baseUrl}/?`),
+    });
+
+    const iTwins = await collect(client.iterateITwins("test-token"));
+
+    expect(iTwins).toHaveLength(2);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("should not request more pages once the consumer stops", async () => {
+    const { client, requests } = createClient({
+      [`${baseUrl}/?`]: () => createPage(["1", "2"], `${baseUrl}/?$skip=2`),
+    });
+
+    for await (const iTwin of client.iterateITwins("test-token")) {
+      expect(iTwin.id).toBe("1");
+      break;
+    }
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should throw a BentleyAPIResponseError when a page request fails", async () => {
+    const { client } = createClient({
+      [`${baseUrl}/?`]: () => createPage(["1"], `${baseUrl}/?$skip=1`),
+    });
+
+    const error = await collect(client.iterateITwins("test-token")).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(BentleyAPIResponseError);
+    expect((error as BentleyAPIResponseError).response.status).toBe(404);
+    expect((error as BentleyAPIResponseError).message).toBe("No page");
+  });
+
+  it("should stop with a RequestAborted error when aborted", async () => {
+    const controller = new AbortController();
+    const { client, requests } = createClient({
+      [`${baseUrl}/?`]: () => createPage(["1"], `${baseUrl}/?$skip=1`),
+      [`${baseUrl}/?$skip=1`]: () => createPage(["2"]),
+    });
+
+    const iTwins: string[] = [];
+    const error = await (async () => {
+      for await (const iTwin of client.iterateITwins("test-token", undefined, { signal: controller.signal })) {
+        iTwins.push(iTwin.id);
+        controller.abort();
+      }
+    })().catch((e: unknown) => e);
+
+    expect(iTwins).toEqual(["1"]);
+    expect(requests).toHaveLength(1);
+    expect((error as BentleyAPIResponseError).response.error!.code).toBe("RequestAborted");
+  });
+});
+
+describe("ITwinsClient - Listing Iterators", () => {
+  const baseUrl = "https://api.bentley.com/itwins";
+
+  /**
+   * Creates a page of a listing linking to the next page when given
+   */
+  function createPage(itemsKey: string, ids: string[], next?: string): Response {
+    return Response.json(
+      Object.fromEntries([
+        [itemsKey, ids.map((id) => ({ id, displayName: `Item ${id}` }))],
+        ["_links", { self: { href: "" }, prev: { href: "" }, next: next ? { href: next } : undefined }],
+      ])
+    );
+  }
+
+  /**
+   * Creates a client serving the given responses by URL
+   */
+  function createClient(responses: Record<string, () => Response>) {
+    const requests: { url: string; init: RequestInit }[] = [];
+    const client = new ITwinsClient({
+      fetch: async (url, init) => {
+        requests.push({ url, init });
+        const response = responses[url];
+        return response ? response() : Response.json({ error: { code: "NotFound", message: "No page" } }, { status: 404 });
+      },
+    });
+    return { client, requests };
+  }
+
+  /**
+   * Collects the items of an async iterable
+   */
+  async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterable) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  it("should iterate over favorite and recently used iTwins", async () => {
+    const { client } = createClient({
+      [`${baseUrl}/favorites/?`]: () => createPage("iTwins", ["1"], `${baseUrl}/favorites/?$skip=1`),
+      [`${baseUrl}/favorites/?$skip=1`]: () => createPage("iTwins", ["2"]),
+      [`${baseUrl}/recents`]: () => createPage("iTwins", ["3"], `${baseUrl}/recents?$skip=1`),
+      [`${baseUrl}/recents?$skip=1`]: () => createPage("iTwins", ["4"]),
+    });
+
+    const favorites = await collect(client.iterateFavoritesITwins("test-token"));
+    const recents = await collect(client.iterateRecentUsedITwins("test-token"));
+
+    expect(favorites.map((iTwin) => iTwin.id)).toEqual(["1", "2"]);
+    expect(recents.map((iTwin) => iTwin.id)).toEqual(["3", "4"]);
+  });
+
+  it("should collect the iTwins of every page into one response", async () => {
+    const { client } = createClient({
+      [`${baseUrl}/favorites/?`]: () => createPage("iTwins", ["1", "2"], `${baseUrl}/favorites/?$skip=2`),
+      [`${baseUrl}/favorites/?$skip=2`]: () => createPage("iTwins", ["3"]),
+    });
+
+    const result = await client.getAllFavoritesITwins("test-token", { resultMode: "representation" });
+    const limited = await client.getAllFavoritesITwins("test-token", undefined, { maxItems: 1 });
+
+    expect(result.status).toBe(200);
+    expect(result.data!.iTwins.map((iTwin) => iTwin.id)).toEqual(["1", "2", "3"]);
+    expect(result.data).not.toHaveProperty("_links");
+    expect(limited.data!.iTwins.map((iTwin) => iTwin.id)).toEqual(["1"]);
+  });
+
+  it("should return the failed page response when collecting", async () => {
+    const { client } = createClient({
+      [`${baseUrl}/recents`]: () => createPage("iTwins", ["1"], `${baseUrl}/recents?$skip=1`),
+    });
+
+    const result = await client.getAllRecentUsedITwins("test-token");
+
+    expect(result.status).toBe(404);
+    expect(result.error!.code).toBe("NotFound");
+    expect(result.data).toBeUndefined();
+  });
+
+  it("should iterate over repository resources with the result mode of every page", async () => {
+    const resourcesUrl = `${baseUrl}/iTwinId/repositories/repoId/resources`;
+    const { client, requests } = createClient({
+      [`${resourcesUrl}?`]: () => createPage("resources", ["a"], `${resourcesUrl}?$skip=1`),
+      [`${resourcesUrl}?$skip=1`]: () => createPage("resources", ["b"]),
+    });
+
+    const resources = await collect(client.iterateRepositoryResources("test-token", "iTwinId", "repoId", undefined, "representation"));
+
+    expect(resources.map((resource) => resource.id)).toEqual(["a", "b"]);
+    expect(requests.map((request) => (request.init.headers as Record<string, string>).prefer)).toEqual([
+      "return=representation",
+      "return=representation",
+    ]);
+  });
+
+  it("should collect global repository resources", async () => {
+    const resourcesUrl = `${baseUrl}/repositories/cesium/resources`;
+    const { client } = createClient({
+      [resourcesUrl]: () => createPage("resources", ["a"], `${resourcesUrl}?$skip=1`),
+      [`${resourcesUrl}?$skip=1`]: () => createPage("resources", ["b"]),
+    });
+
+    const result = await client.getAllGlobalRepositoryResources("test-token", "cesium");
+
+    expect(result.data!.resources.map((resource) => resource.id)).toEqual(["a", "b"]);
+  });
+
+  it("should follow next links to trusted federated hosts and relative next links", async () => {
+    const federatedUrl = "https://qa-api.bentley.com/federated/resources";
+    const { client, requests } = createClient({
+      "https://api.bentley.com/capability/resources": () => createPage("resources", ["a"], `${federatedUrl}?page=2`),
+      [`${federatedUrl}?page=2`]: () => createPage("resources", ["b"], "resources?page=3"),
+      ["https://qa-api.bentley.com/federated/resources?page=3"]: () => createPage("resources", ["c"]),
+    });
+
+    const result = await client.getAllRepositoryResourcesByUri("test-token", "https://api.bentley.com/capability/resources");
+
+    expect(result.data!.resources.map((resource) => resource.id)).toEqual(["a", "b", "c"]);
+    expect(requests.map((request) => (request.init.headers as Record<string, string>).authorization)).toEqual([
+      "test-token",
+      "test-token",
+      "test-token",
+    ]);
+  });
+
+  it("should reject next links to untrusted hosts", async () => {
+    const { client, requests } = createClient({
+      "https://api.bentley.com/capability/resources": () =>
+        createPage("resources", ["a"], "https://evil.example.com/resources?page=2"),
+    });
+
+    const result = await client.getAllRepositoryResourcesByUri("test-token", "https://api.bentley.com/capability/resources");
+
+    expect(result.status).toBe(502);
+    expect(result.error).toMatchObject({ code: "InvalidRedirectUrl", category: "redirect-policy" });
+    expect(result.error!.details![0].code).toBe("UntrustedHost");
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe("ITwinsClient - Select", () => {
+  /**
+   * Creates a client recording the requests it sends
+   */
+  function createClient() {
+    const requests: { url: string; init: RequestInit }[] = [];
+    const client = new ITwinsClient({
+      fetch: async (url, init) => {
+        requests.push({ url, init });
+        return Response.json(
+          Object.fromEntries([
+            ["iTwins", [{ id: "1", displayName: "iTwin 1", status: "Active" }]],
+            ["_links", { self: { href: "" }, prev: { href: "" }, next: undefined }],
+          ])
+        );
+      },
+    });
+    return { client, requests };
+  }
+
+  it("should send a select array as a comma-separated $select parameter", async () => {
+    const { client, requests } = createClient();
+
+    await client.getITwins("test-token", { select: ["id", "displayName", "status"] });
+
+    expect(requests[0].url).toBe(
+      `https://api.bentley.com/itwins/?$select=${encodeURIComponent("id,displayName,status")}`
+    );
+  });
+
+  it("should narrow the response to the selected properties", async () => {
+    const { client } = createClient();
+
+    const response = await client.getITwins("test-token", { select: ["id", "displayName", "status"] });
+    const iTwin = response.data!.iTwins[0];
+
+    expectTypeOf(iTwin).toEqualTypeOf<Pick<ITwinRepresentation, "id" | "displayName" | "status">>();
+    expect(iTwin).toEqual({ id: "1", displayName: "iTwin 1", status: "Active" });
+  });
+
+  it("should narrow iterated iTwins to the selected properties", async () => {
+    const { client } = createClient();
+
+    for await (const iTwin of client.iterateITwins("test-token", { select: ["id", "createdDateTime"] })) {
+      expectTypeOf(iTwin).toEqualTypeOf<Pick<ITwinRepresentation, "id" | "createdDateTime">>();
+    }
+  });
+
+  it("should keep the result mode typing for string selects", async () => {
+    const { client } = createClient();
+
+    const representation = await client.getITwins("test-token", { resultMode: "representation", select: "id" });
+    const minimal = await client.getITwins("test-token", { select: "id" });
+
+    expectTypeOf(representation.data!.iTwins[0]).toEqualTypeOf<ITwinRepresentation>();
+    expectTypeOf(minimal.data!.iTwins[0]).toEqualTypeOf<ITwinMinimal>();
+  });
+
+  it("should reject unknown properties at compile time", async () => {
+    const { client } = createClient();
+
+    // @ts-expect-error unknown is not an iTwin property
+    await client.getITwins("test-token", { select: ["id", "unknown"] });
+  });
+
+  it("should send a select array as a comma-delimited string in the createExport body", async () => {
+    const { client, requests } = createClient();
+
+    await client.createExport("test-token", { outputFormat: "Csv", select: ["id", "displayName"] });
+
+    expect(JSON.parse(requests[0].init.body as string)).toEqual({ outputFormat: "Csv", select: "id,displayName" });
+  });
+});
+
+describe("ITwinsClient - OData Options", () => {
+  /**
+   * Creates a client recording the requests it sends and answering with a listing body
+   */
+  function createClient(body: Record<string, unknown>) {
+    const requests: { url: string; init: RequestInit }[] = [];
+    const client = new ITwinsClient({
+      fetch: async (url, init) => {
+        requests.push({ url, init });
+        return Response.json(body);
+      },
+    });
+    return { client, requests };
+  }
+
+  const iTwinsBody = Object.fromEntries([
+    ["@odata.count", 12340],
+    ["iTwins", [{ id: "1", displayName: "iTwin 1" }]],
+    ["_links", { self: { href: "" }, prev: { href: "" }, next: undefined }],
+  ]);
+
+  it("should send $count, $expand, $apply and $format for getITwins", async () => {
+    const { client, requests } = createClient(iTwinsBody);
+
+    await client.getITwins("test-token", {
+      count: true,
+      expand: "account",
+      apply: "groupby((status))",
+      format: "json",
+    });
+
+    const url = requests[0].url;
+    expect(url).toContain("$count=true");
+    expect(url).toContain("$expand=account");
+    expect(url).toContain(`$apply=${encodeURIComponent("groupby((status))")}`);
+    expect(url).toContain("$format=json");
+  });
+
+  it("should return a typed total count when $count is requested", async () => {
+    const { client } = createClient(iTwinsBody);
+
+    const response = await client.getITwins("test-token", { count: true, top: 50 });
+
+    expectTypeOf(response.data!.totalCount).toEqualTypeOf<number>();
+    expect(response.data!.totalCount).toBe(12340);
+    expect(response.data!.iTwins).toHaveLength(1);
+  });
+
+  it("should not type a total count when $count is not requested", async () => {
+    const { client } = createClient(iTwinsBody);
+
+    const response = await client.getITwins("test-token", { top: 50 });
+
+    expectTypeOf(response.data!).not.toHaveProperty("totalCount");
+  });
+
+  it("should not add a total count when the body has none", async () => {
+    const { client } = createClient({ iTwins: [] });
+
+    const response = await client.getITwins("test-token", { count: true });
+
+    expect(response.data).not.toHaveProperty("totalCount");
+  });
+
+  it("should send the OData options of the repository resource listings", async () => {
+    const { client, requests } = createClient(
+      Object.fromEntries([
+        ["@odata.count", 3],
+        ["resources", []],
+        ["_links", { self: { href: "" }, prev: { href: "" }, next: undefined }],
+      ])
+    );
+
+    const resources = await client.getRepositoryResources("test-token", "iTwinId", "repoId", { count: true, top: 1 });
+    const globalResources = await client.getGlobalRepositoryResources("test-token", "cesium", { expand: "graphics" });
+    const uriResources = await client.getRepositoryResourcesByUri("test-token", "https://api.bentley.com/resources", {
+      count: true,
+      format: "json",
+    });
+
+    expect(requests[0].url).toBe("https://api.bentley.com/itwins/iTwinId/repositories/repoId/resources?$top=1&$count=true");
+    expect(requests[1].url).toBe("https://api.bentley.com/itwins/repositories/cesium/resources?$expand=graphics");
+    expect(requests[2].url).toBe("https://api.bentley.com/resources?$count=true&$format=json");
+    expectTypeOf(resources.data!.totalCount).toEqualTypeOf<number>();
+    expect(resources.data!.totalCount).toBe(3);
+    expect(uriResources.data!.totalCount).toBe(3);
+    expect(globalResources.data).toHaveProperty("resources");
+  });
+});
+
+describe("ITwinsClient - Query Argument Validation", () => {
+  /**
+   * Creates a client recording the requests it sends
+   */
+  function createClient() {
+    const requests: string[] = [];
+    const client = new ITwinsClient({
+      fetch: async (url) => {
+        requests.push(url);
+        return Response.json({ iTwins: [] });
+      },
+    });
+    return { client, requests };
+  }
+
+  it("should return every offending argument without sending the request", async () => {
+    const { client, requests } = createClient();
+
+    const response = await client.getITwins("test-token", {
+      top: 5000,
+      skip: -1,
+      subClass: "Building" as any,
+      status: "Actve",
+      queryScope: "everything" as any,
+    });
+
+    expect(requests).toHaveLength(0);
+    expect(response.status).toBe(400);
+    expect(isInvalidQueryArgumentError(response.error)).toBe(true);
+    expect(response.error).toMatchObject({ code: "InvalidQueryArgument", category: "validation" });
+    expect(response.error!.details!.map((detail) => [detail.target, detail.code])).toEqual([
+      ["top", "OutOfRange"],
+      ["skip", "OutOfRange"],
+      ["subClass", "InvalidValue"],
+      ["status", "InvalidValue"],
+      ["queryScope", "InvalidValue"],
+    ]);
+    expect(response.error!.message).toBe("Invalid query arguments: top, skip, subClass, status, queryScope.");
+  });
+
+  it("should reject fractional and zero page sizes", async () => {
+    const { client } = createClient();
+
+    const fractional = await client.getITwins("test-token", { top: 2.5 });
+    const zero = await client.getITwins("test-token", { top: 0 });
+
+    expect(fractional.error!.details![0].target).toBe("top");
+    expect(zero.error!.details![0].target).toBe("top");
+  });
+
+  it("should send requests with valid arguments", async () => {
+    const { client, requests } = createClient();
+
+    const response = await client.getITwins("test-token", {
+      top: 1000,
+      skip: 0,
+      subClass: "WorkPackage",
+      status: "Trial",
+      queryScope: "OrganizationAdmin",
+      resultMode: "representation",
+    });
+
+    expect(response.status).toBe(200);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should accept status and subClass values in any case", async () => {
+    const { client, requests } = createClient();
+
+    const response = await client.getITwins("test-token", { status: "active", subClass: "workpackage" as any });
+
+    expect(response.status).toBe(200);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toContain("status=active");
+  });
+
+  it("should validate favorites and recently used iTwins queries", async () => {
+    const { client, requests } = createClient();
+
+    const favorites = await client.getFavoritesITwins("test-token", { top: 1001 });
+    const recents = await client.getRecentUsedITwins("test-token", { status: "Deleted" });
+
+    expect(requests).toHaveLength(0);
+    expect(favorites.error!.details![0].target).toBe("top");
+    expect(recents.error!.details![0].target).toBe("status");
+  });
+
+  it("should throw the validation error from iterators", async () => {
+    const { client } = createClient();
+
+    const iterate = async () => {
+      for await (const iTwin of client.iterateITwins("test-token", { skip: -5 })) {
+        expect(iTwin).toBeUndefined();
+      }
+    };
+
+    await expect(iterate()).rejects.toBeInstanceOf(BentleyAPIResponseError);
+  });
+});
+
+describe("ITwinsClient - Multi-Value Query Arguments", () => {
+  /**
+   * Creates a client recording the URLs it requests
+   */
+  function createClient() {
+    const requests: string[] = [];
+    const client = new ITwinsClient({
+      fetch: async (url) => {
+        requests.push(url);
+        return Response.json({ iTwins: [] });
+      },
+    });
+    return { client, requests };
+  }
+
+  /**
+   * Gets the decoded query parameters of a URL
+   */
+  function getParams(url: string): [string, string][] {
+    return [...new URL(url).searchParams.entries()];
+  }
+
+  it("should lower a subClass list to an in filter", async () => {
+    const { client, requests } = createClient();
+
+    await client.getITwins("test-token", { subClass: ["Project", "Asset"] });
+
+    expect(getParams(requests[0])).toEqual([["$filter", "subClass in ('Project','Asset')"]]);
+  });
+
+  it("should lower status and type lists to an in filter", async () => {
+    const { client, requests } = createClient();
+
+    await client.getITwins("test-token", {
+      subClass: ["Project", "Asset"],
+      status: ["Active", "Trial"],
+      type: ["Bridge", "Road"],
+      top: 10,
+    });
+
+    expect(getParams(requests[0])).toEqual([
+      ["$top", "10"],
+      ["$filter", "subClass in ('Project','Asset') and status in ('Active','Trial') and type in ('Bridge','Road')"],
+    ]);
+  });
+
+  it("should combine lowered lists with the filter argument", async () => {
+    const { client, requests } = createClient();
+
+    await client.getITwins("test-token", {
+      status: ["Active", "Trial"],
+      filter: "startswith(number,'A') or startswith(number,'B')",
+    });
+    await client.getITwins("test-token", {
+      type: ["Bridge", "Road"],
+      filter: ITwinFilter.contains("displayName", "North"),
+    });
+
+    expect(getParams(requests[0])).toEqual([
+      ["$filter", "(startswith(number,'A') or startswith(number,'B')) and status in ('Active','Trial')"],
+    ]);
+    expect(getParams(requests[1])).toEqual([
+      ["$filter", "contains(displayName,'North') and type in ('Bridge','Road')"],
+    ]);
+  });
+
+  it("should send single-value lists as plain parameters", async () => {
+    const { client, requests } = createClient();
+
+    await client.getITwins("test-token", { status: ["Active"], type: ["Bridge"] });
+
+    expect(getParams(requests[0])).toEqual([
+      ["type", "Bridge"],
+      ["status", "Active"],
+    ]);
+  });
+
+  it("should reject lists of several values for favorites and recents", async () => {
+    const { client, requests } = createClient();
+
+    const favorites = await client.getFavoritesITwins("test-token", { subClass: ["Project", "Asset"], status: ["Active", "Trial"] });
+    const recents = await client.getRecentUsedITwins("test-token", { type: ["Bridge", "Road"] });
+
+    expect(requests).toHaveLength(0);
+    expect(favorites.error!.details!.map((detail) => detail.target)).toEqual(["subClass", "status"]);
+    expect(recents.error!.details![0]).toMatchObject({ target: "type", code: "InvalidValue" });
+  });
+
+  it("should send single-value lists as plain parameters for favorites", async () => {
+    const { client, requests } = createClient();
+
+    await client.getFavoritesITwins("test-token", { subClass: ["Project"], status: ["Active"] });
+
+    expect(getParams(requests[0])).toEqual([
+      ["subClass", "Project"],
+      ["status", "Active"],
+    ]);
+  });
+
+  it("should validate every value of a list", async () => {
+    const { client, requests } = createClient();
+
+    const response = await client.getITwins("test-token", {
+      subClass: ["Project", "Building" as any],
+      status: [],
+      type: [],
+    });
+
+    expect(requests).toHaveLength(0);
+    expect(response.error!.details!.map((detail) => detail.target)).toEqual(["subClass", "status", "type"]);
+  });
+
+  it("should keep the response typing", async () => {
+    const { client } = createClient();
+
+    const response = await client.getITwins("test-token", {
+      resultMode: "representation",
+      subClass: ["Project", "Asset"],
+      status: ["Active", "Trial"],
+    });
+
+    expectTypeOf(response.data!.iTwins[0]).toEqualTypeOf<ITwinRepresentation>();
+  });
+});
+
+describe("ITwinsClient - Get iTwins by IDs", () => {
+  /**
+   * Creates a GUID from a number
+   */
+  function guid(n: number): string {
+    return `00000000-0000-4000-8000-${n.toString().padStart(12, "0")}`;
+  }
+
+  /**
+   * Gets the IDs requested by a `$filter=id in (...)` URL
+   */
+  function getRequestedIds(url: string): string[] {
+    const filter = new URL(url).searchParams.get("$filter") ?? "";
+    return [...filter.matchAll(/'([^']+)'/g)].map((match) => match[1]);
+  }
+
+  /**
+   * Creates a client answering id filters with the iTwins it knows, tracking requests in flight
+   */
+  function createClient(knownIds: string[], failingId?: string) {
+    const requests: { url: string; init: RequestInit }[] = [];
+    const stats = { inFlight: 0, maxInFlight: 0 };
+    const client = new ITwinsClient({
+      fetch: async (url, init) => {
+        requests.push({ url, init });
+        stats.inFlight++;
+        stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        stats.inFlight--;
+        const requestedIds = getRequestedIds(url);
+        if (failingId && requestedIds.includes(failingId)) {
+          return Response.json({ error: { code: "Forbidden", message: "Not allowed" } }, { status: 403 });
+        }
+        const iTwins = requestedIds
+          .filter((id) => knownIds.includes(id.toLowerCase()))
+          .map((id) => ({ id: id.toLowerCase(), displayName: `iTwin ${id}` }));
+        return Response.json(
+          Object.fromEntries([
+            ["iTwins", iTwins],
+            ["_links", { self: { href: "" }, prev: { href: "" }, next: undefined }],
+          ])
+        );
+      },
+    });
+    return { client, requests, stats };
+  }
+
+  it("should return the found iTwins keyed by ID and the IDs not found", async () => {
+    const { client, requests } = createClient([guid(1), guid(3)]);
+
+    const response = await client.getITwinsByIds("test-token", [guid(1), guid(2), guid(3)]);
+
+    expect(response.status).toBe(200);
+    expect([...response.data!.iTwins.keys()]).toEqual([guid(1), guid(3)]);
+    expect(response.data!.iTwins.get(guid(3))!.displayName).toBe(`iTwin ${guid(3)}`);
+    expect(response.data!.notFound).toEqual([guid(2)]);
+    expect(requests).toHaveLength(1);
+    expect(new URL(requests[0].url).searchParams.get("$filter")).toBe(`id in ('${guid(1)}','${guid(2)}','${guid(3)}')`);
+    expect(new URL(requests[0].url).searchParams.get("$top")).toBe("3");
+  });
+
+  it("should split the IDs into requests within the URL length limit", async () => {
+    const ids = Array.from({ length: 200 }, (_, n) => guid(n));
+    const { client, requests } = createClient(ids);
+
+    const response = await client.getITwinsByIds("test-token", ids, "minimal", { maxUrlLength: 1000 });
+
+    expect(response.data!.iTwins.size).toBe(200);
+    expect(response.data!.notFound).toEqual([]);
+    expect(requests.length).toBeGreaterThan(1);
+    for (const request of requests) {
+      expect(request.url.length).toBeLessThanOrEqual(1000);
+    }
+    expect(requests.flatMap((request) => getRequestedIds(request.url)).sort()).toEqual([...ids].sort());
+  });
+
+  it("should bound the number of requests in flight", async () => {
+    const ids = Array.from({ length: 200 }, (_, n) => guid(n));
+    const { client, requests, stats } = createClient(ids);
+
+    await client.getITwinsByIds("test-token", ids, "minimal", { maxUrlLength: 500, concurrency: 2 });
+
+    expect(requests.length).toBeGreaterThan(2);
+    expect(stats.maxInFlight).toBe(2);
+  });
+
+  it("should request duplicate IDs once and report IDs that are not GUIDs as not found", async () => {
+    const id = "abcdef00-0000-4000-8000-000000000001";
+    const { client, requests } = createClient([id]);
+
+    const response = await client.getITwinsByIds("test-token", [id, "not-a-guid", id, id.toUpperCase()]);
+
+    expect(getRequestedIds(requests[0].url)).toEqual([id]);
+    expect(response.data!.iTwins.get(id)).toBeDefined();
+    expect(response.data!.iTwins.get(id.toUpperCase())).toBeDefined();
+    expect(response.data!.notFound).toEqual(["not-a-guid"]);
+  });
+
+  it("should not send requests without IDs", async () => {
+    const { client, requests } = createClient([]);
+
+    const response = await client.getITwinsByIds("test-token", []);
+
+    expect(requests).toHaveLength(0);
+    expect(response.data!.iTwins.size).toBe(0);
+    expect(response.data!.notFound).toEqual([]);
+  });
+
+  it("should return the response of a failed request", async () => {
+    const ids = Array.from({ length: 50 }, (_, n) => guid(n));
+    const { client } = createClient(ids, guid(30));
+
+    const response = await client.getITwinsByIds("test-token", ids, "minimal", { maxUrlLength: 500 });
+
+    expect(response.status).toBe(403);
+    expect(response.error!.code).toBe("Forbidden");
+    expect(response.data).toBeUndefined();
+  });
+
+  it("should send the result mode of every request", async () => {
+    const { client, requests } = createClient([guid(1)]);
+
+    const response = await client.getITwinsByIds("test-token", [guid(1)], "representation");
+
+    expect((requests[0].init.headers as Record<string, string>).prefer).toBe("return=representation");
+    expectTypeOf(response.data!.iTwins.get(guid(1))).toEqualTypeOf<ITwinRepresentation | undefined>();
+  });
+
+  it("should include inactive iTwins and send the query scope", async () => {
+    const requests: { url: string; init: RequestInit }[] = [];
+    const client = new ITwinsClient({
+      fetch: async (url, init) => {
+        requests.push({ url, init });
+        const includeInactive = new URL(url).searchParams.get("includeInactive") === "true";
+        const iTwins = [
+          { id: guid(1), displayName: "Active iTwin", status: "Active" },
+          { id: guid(2), displayName: "Inactive iTwin", status: "Inactive" },
+        ].filter((iTwin) => includeInactive || iTwin.status === "Active");
+        return Response.json(Object.fromEntries([["iTwins", iTwins]]));
+      },
+    });
+
+    const response = await client.getITwinsByIds("test-token", [guid(1), guid(2)], "minimal", { queryScope: "all" });
+
+    expect(new URL(requests[0].url).searchParams.get("includeInactive")).toBe("true");
+    expect((requests[0].init.headers as Record<string, string>)["x-itwin-query-scope"]).toBe("all");
+    expect([...response.data!.iTwins.keys()]).toEqual([guid(1), guid(2)]);
+    expect(response.data!.notFound).toEqual([]);
+  });
+});
+
+describe("ITwinsClient - Hierarchy Navigation", () => {
+  /**
+   * Creates a GUID from a number
+   */
+  function guid(n: number): string {
+    return `00000000-0000-4000-8000-${n.toString().padStart(12, "0")}`;
+  }
+
+  /**
+   * Creates an iTwin in representation mode
+   */
+  function iTwin(n: number, parent?: number, subClass: ITwinRepresentation["subClass"] = "Project"): ITwinRepresentation {
+    return {
+      id: guid(n),
+      displayName: `iTwin ${n}`,
+      class: "Endeavor",
+      subClass,
+      type: "Site",
+      parentId: parent === undefined ? undefined : guid(parent),
+    };
+  }
+
+  /**
+   * Creates a client answering parentId queries and iTwin lookups from the iTwins it knows
+   */
+  function createClient(iTwins: ITwinRepresentation[], failingId?: string) {
+    const requests: string[] = [];
+    const client = new ITwinsClient({
+      fetch: async (url) => {
+        requests.push(url);
+        const { pathname, searchParams } = new URL(url);
+        const id = pathname.split("/").pop() ?? "";
+        if (id === failingId || searchParams.get("parentId") === failingId) {
+          return Response.json({ error: { code: "Forbidden", message: "Not allowed" } }, { status: 403 });
+        }
+        if (!searchParams.has("parentId")) {
+          const found = iTwins.find((item) => item.id === id);
+          return found
+            ? Response.json({ iTwin: found })
+            : Response.json({ error: { code: "iTwinNotFound", message: "Not found" } }, { status: 404 });
+        }
+        return Response.json(
+          Object.fromEntries([
+            [
+              "iTwins",
+              iTwins.filter(
+                (item) =>
+                  item.parentId === searchParams.get("parentId") &&
+                  (item.status !== "Inactive" || searchParams.get("includeInactive") === "true")
+              ),
+            ],
+            ["_links", { self: { href: "" }, prev: { href: "" }, next: undefined }],
+          ])
+        );
+      },
+    });
+    return { client, requests };
+  }
+
+  describe("getChildren", () => {
+    it("should request the iTwins whose parent is the given iTwin in representation mode", async () => {
+      const { client, requests } = createClient([iTwin(1), iTwin(2, 1), iTwin(3, 1), iTwin(4, 2)]);
+
+      const response = await client.getChildren("test-token", guid(1), { top: 50 });
+
+      expect(response.status).toBe(200);
+      expect(response.data!.iTwins.map((item) => item.id)).toEqual([guid(2), guid(3)]);
+      expect(new URL(requests[0]).searchParams.get("parentId")).toBe(guid(1));
+      expect(new URL(requests[0]).searchParams.get("$top")).toBe("50");
+      expectTypeOf(response.data!.iTwins).toEqualTypeOf<ITwinRepresentation[]>();
+    });
+  });
+
+  describe("getDescendants", () => {
+    it("should walk down the hierarchy breadth-first", async () => {
+      const { client } = createClient([iTwin(1), iTwin(2, 1), iTwin(3, 1), iTwin(4, 2), iTwin(5, 4), iTwin(6, 3)]);
+
+      const response = await client.getDescendants("test-token", guid(1));
+
+      expect(response.status).toBe(200);
+      const { roots, nodes, issues } = response.data!;
+      expect(roots.map((node) => node.iTwin.id)).toEqual([guid(2), guid(3)]);
+      expect(nodes.map((node) => [node.iTwin.id, node.depth])).toEqual([
+        [guid(2), 1],
+        [guid(3), 1],
+        [guid(4), 2],
+        [guid(6), 2],
+        [guid(5), 3],
+      ]);
+      expect(roots[0].children[0].children[0].iTwin.id).toBe(guid(5));
+      expect(issues).toEqual([]);
+    });
+
+    it("should walk through inactive iTwins", async () => {
+      const { client, requests } = createClient([iTwin(1), { ...iTwin(2, 1), status: "Inactive" }, iTwin(3, 2)]);
+
+      const response = await client.getDescendants("test-token", guid(1), { queryScope: "all" });
+
+      expect(response.data!.nodes.map((node) => [node.iTwin.id, node.depth])).toEqual([
+        [guid(2), 1],
+        [guid(3), 2],
+      ]);
+      expect(response.data!.issues).toEqual([]);
+      expect(new URL(requests[0]).searchParams.get("includeInactive")).toBe("true");
+    });
+
+    it("should stop at the maximum depth", async () => {
+      const { client, requests } = createClient([iTwin(1), iTwin(2, 1), iTwin(3, 2), iTwin(4, 3)]);
+
+      const response = await client.getDescendants("test-token", guid(1), { maxDepth: 2 });
+
+      expect(response.data!.nodes.map((node) => node.iTwin.id)).toEqual([guid(2), guid(3)]);
+      expect(response.data!.nodes[1].children).toEqual([]);
+      expect(requests).toHaveLength(2);
+    });
+
+    it("should report a cycle and not walk it again", async () => {
+      const { client } = createClient([iTwin(1, 3), iTwin(2, 1), iTwin(3, 2)]);
+
+      const response = await client.getDescendants("test-token", guid(1));
+
+      expect(response.data!.nodes.map((node) => node.iTwin.id)).toEqual([guid(2), guid(3)]);
+      expect(response.data!.issues).toEqual([
+        expect.objectContaining({ code: "Cycle", iTwinId: guid(1), parentId: guid(3) }),
+      ]);
+    });
+
+    it("should return the first failed request", async () => {
+      const { client } = createClient([iTwin(1), iTwin(2, 1), iTwin(3, 1)], guid(3));
+
+      const response = await client.getDescendants("test-token", guid(1));
+
+      expect(response.status).toBe(403);
+      expect(response.error?.code).toBe("Forbidden");
+      expect(response.data).toBeUndefined();
+    });
+  });
+
+  describe("getAncestors", () => {
+    it("should walk up the parents until the account", async () => {
+      const { client, requests } = createClient([
+        iTwin(9, undefined, "Account"),
+        iTwin(1, 9, "Program"),
+        iTwin(2, 1),
+        iTwin(3, 2, "Asset"),
+      ]);
+
+      const response = await client.getAncestors("test-token", guid(3));
+
+      expect(response.status).toBe(200);
+      expect(response.data!.ancestors.map((item) => item.id)).toEqual([guid(2), guid(1), guid(9)]);
+      expect(response.data!.issues).toEqual([]);
+      expect(requests).toHaveLength(4);
+      expect(requests[0]).toContain(guid(3));
+    });
+
+    it("should not walk past the account", async () => {
+      const { client, requests } = createClient([iTwin(9, 8, "Account"), iTwin(1, 9)]);
+
+      const response = await client.getAncestors("test-token", guid(1));
+
+      expect(response.data!.ancestors.map((item) => item.id)).toEqual([guid(9)]);
+      expect(requests).toHaveLength(2);
+    });
+
+    it("should report a missing parent", async () => {
+      const { client } = createClient([iTwin(1, 7), iTwin(2, 1)]);
+
+      const response = await client.getAncestors("test-token", guid(2));
+
+      expect(response.status).toBe(200);
+      expect(response.data!.ancestors.map((item) => item.id)).toEqual([guid(1)]);
+      expect(response.data!.issues).toEqual([
+        expect.objectContaining({ code: "MissingParent", iTwinId: guid(1), parentId: guid(7) }),
+      ]);
+    });
+
+    it("should report a cycle", async () => {
+      const { client } = createClient([iTwin(1, 2), iTwin(2, 1)]);
+
+      const response = await client.getAncestors("test-token", guid(1));
+
+      expect(response.data!.ancestors.map((item) => item.id)).toEqual([guid(2)]);
+      expect(response.data!.issues).toEqual([
+        expect.objectContaining({ code: "Cycle", iTwinId: guid(2), parentId: guid(1) }),
+      ]);
+    });
+
+    it("should return the failed lookup of the starting iTwin", async () => {
+      const { client } = createClient([]);
+
+      const response = await client.getAncestors("test-token", guid(1));
+
+      expect(response.status).toBe(404);
+      expect(response.data).toBeUndefined();
+    });
+  });
+});
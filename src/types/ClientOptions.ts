@@ -0,0 +1,183 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import type { AccessToken } from "@itwin/core-bentley";
+import type { BentleyAPIMiddleware } from "./Middleware.js";
+
+/**
+ * Fetch-compatible function used to send HTTP requests.
+ * Allows plugging in undici dispatchers, proxies, instrumented or mock transports.
+ */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Asynchronous source of access tokens, called once per request.
+ * `forceRefresh` is true when the previous token was rejected with a 401 and a new one is needed.
+ */
+export type AccessTokenProvider = (options: { forceRefresh: boolean }) => Promise<AccessToken>;
+
+/**
+ * Retry policy applied to failed requests.
+ * Delays grow exponentially from `baseDelayMs` and are capped by `maxDelayMs`.
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, the first one included. Defaults to 3 */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds, doubled on every following retry. Defaults to 500 */
+  baseDelayMs?: number;
+  /** Upper bound of a single delay in milliseconds. Defaults to 30000 */
+  maxDelayMs?: number;
+  /** Randomize each delay between 0 and the computed backoff (full jitter). Defaults to true */
+  jitter?: boolean;
+  /** Response status codes that trigger a retry. Defaults to 408, 429, 500, 502, 503 and 504 */
+  retryableStatusCodes?: number[];
+  /** Retry requests whose fetch call throws, such as DNS or connection failures. Defaults to true */
+  retryOnNetworkError?: boolean;
+  /**
+   * Wait for the delay given by the `Retry-After` header when present. Defaults to true.
+   * A response asking to wait longer than `maxDelayMs` is returned without retrying.
+   */
+  respectRetryAfter?: boolean;
+  /** Also retry non-idempotent methods (POST, PATCH). Defaults to false */
+  retryNonIdempotent?: boolean;
+}
+
+/**
+ * Policy deciding which hosts redirects may be followed to.
+ * A host is trusted when it is listed in `hosts`, ends with one of `hostSuffixes`, or is accepted by `isTrusted`.
+ */
+export interface TrustedHostPolicy {
+  /** Exact trusted host names. Defaults to api.bentley.com */
+  hosts?: string[];
+  /** Trusted host name suffixes, e.g. ".gateway.example.com". Defaults to -api.bentley.com (qa-api.bentley.com, dev-api.bentley.com, ...) */
+  hostSuffixes?: string[];
+  /** Custom predicate trusting hosts not matched by `hosts` or `hostSuffixes` */
+  isTrusted?: (url: URL) => boolean;
+  /** Allow plain HTTP redirects to localhost, 127.0.0.1 and [::1]. The host must still be trusted. Defaults to false */
+  allowHttpLocalhost?: boolean;
+  /**
+   * Exact names of the trusted hosts a redirect to another origin keeps the Authorization header for.
+   * Redirects to other trusted hosts are followed without it. Defaults to api.bentley.com
+   */
+  credentialHosts?: string[];
+  /** Host name suffixes of the trusted hosts a redirect to another origin keeps the Authorization header for. Defaults to -api.bentley.com */
+  credentialHostSuffixes?: string[];
+}
+
+/**
+ * Options of the in-memory cache of GET responses.
+ * Responses are cached per URL, `prefer` and `x-itwin-query-scope` headers and token identity.
+ */
+export interface ResponseCacheOptions {
+  /** Time to live of cached responses in milliseconds. Defaults to 60000 */
+  ttlMs?: number;
+  /** TTL overrides for URLs matching a pattern, the first matching rule wins. A TTL of 0 disables caching */
+  endpointTtls?: Array<{ pattern: RegExp; ttlMs: number }>;
+  /** Maximum number of cached responses, the least recently used ones are evicted first. Defaults to 500 */
+  maxEntries?: number;
+  /**
+   * Maps an access token to the identity cached responses are shared by, e.g. the user ID of the token.
+   * Defaults to the token itself, so responses are not shared across token refreshes.
+   */
+  tokenIdentity?: (accessToken: AccessToken) => string;
+}
+
+/**
+ * Limits on the requests a client sends, applied to every attempt, retries and redirect hops included.
+ * Requests beyond the limits wait in a queue ordered by their `priority` request option.
+ */
+export interface RateLimitOptions {
+  /** Maximum number of requests in flight. Unlimited when omitted */
+  maxConcurrent?: number;
+  /** Sustained number of requests started per second (token bucket refill rate). Unlimited when omitted */
+  requestsPerSecond?: number;
+  /** Number of requests that may start at once before `requestsPerSecond` applies (token bucket size). Defaults to `requestsPerSecond` */
+  burst?: number;
+}
+
+/**
+ * State of the circuit breaker of a host.
+ * - closed: requests are sent and their outcomes recorded
+ * - open: requests fail fast with a CircuitOpen error until the cooldown elapsed
+ * - half-open: a limited number of trial requests decide whether the circuit closes or opens again
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Change of the circuit state of a host
+ */
+export interface CircuitStateChange {
+  /** Host of the circuit, with its port when not the default one */
+  host: string;
+  /** Previous state */
+  from: CircuitState;
+  /** New state */
+  to: CircuitState;
+}
+
+/**
+ * Circuit breaker applied per host to every attempt, retries and redirect hops included.
+ * Requests cancelled by the caller do not count as failures.
+ */
+export interface CircuitBreakerOptions {
+  /** Failure rate, between 0 and 1, that opens the circuit. Defaults to 0.5 */
+  failureRateThreshold?: number;
+  /** Number of requests the failure rate is computed over, the latest ones first. Defaults to 20 */
+  windowSize?: number;
+  /** Minimum number of requests recorded before the circuit may open. Defaults to 10 */
+  minimumRequests?: number;
+  /** Time in milliseconds an open circuit rejects requests before letting trial requests through. Defaults to 30000 */
+  cooldownMs?: number;
+  /** Number of trial requests that must succeed while half-open to close the circuit. Defaults to 1 */
+  halfOpenMaxRequests?: number;
+  /** Response status codes counting as failures, in addition to network errors and timeouts. Defaults to 408, 500, 502, 503 and 504 */
+  failureStatusCodes?: number[];
+  /** Called whenever the circuit of a host changes state */
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+/**
+ * Transport options shared by all Bentley API clients
+ */
+export interface BentleyAPIClientOptions {
+  /** Maximum number of redirects to follow, defaults to IMJS_MAX_REDIRECTS or 5 */
+  maxRedirects?: number;
+  /** Fetch implementation used for every request, defaults to the global fetch */
+  fetch?: FetchFunction;
+  /** Headers sent with every request. Headers passed for a specific request take precedence. */
+  defaultHeaders?: Record<string, string>;
+  /** Retry policy for failed requests. Requests are sent only once when omitted */
+  retry?: RetryPolicy;
+  /** Middleware applied to every request, in order. More can be added later with `use` */
+  middleware?: BentleyAPIMiddleware[];
+  /**
+   * Provider of access tokens for calls made with an empty access token.
+   * Calls made with an explicit access token keep using it.
+   */
+  accessTokenProvider?: AccessTokenProvider;
+  /** Policy deciding which hosts redirects may be followed to. Defaults to api.bentley.com and its environments */
+  trustedHosts?: TrustedHostPolicy;
+  /**
+   * Cache GET responses in memory, `true` to use the default cache options. Disabled by default.
+   * Stale responses with an ETag are revalidated with `If-None-Match`.
+   */
+  cache?: boolean | ResponseCacheOptions;
+  /**
+   * Share one network call between concurrent GET requests with the same URL, headers and access token.
+   * Every caller receives its own copy of the response. Defaults to false
+   */
+  coalesceRequests?: boolean;
+  /** Limits on concurrent requests and request rate. Requests are not limited when omitted */
+  rateLimit?: RateLimitOptions;
+  /** Circuit breaker failing requests fast while a host keeps failing. Disabled when omitted */
+  circuitBreaker?: CircuitBreakerOptions;
+}
+
+/**
+ * Options for constructing an iTwins client
+ */
+export interface ITwinsClientOptions extends BentleyAPIClientOptions {
+  /** Base URL for iTwins API endpoints, defaults to the production iTwins API URL */
+  baseUrl?: string;
+}
@@ -2,6 +2,7 @@
 * Copyright (c) Bentley Systems, Incorporated. All rights reserved.
 * See LICENSE.md in the project root for license terms and full copyright notice.
 *--------------------------------------------------------------------------------------------*/
+import type { ITwinQueryScope } from "./ITwinsQueryArgs.js";
 
 // Add this at the top of the file or in a types file
 declare global {
@@ -24,6 +25,106 @@ export interface RequestConfig {
   headers: Record<string, string>;
 }
 
+/**
+ * Per-call options accepted by every client method
+ */
+export interface RequestOptions {
+  /** Signal used to cancel the request, redirect follow-ups and retries included */
+  signal?: AbortSignal;
+  /** Maximum time in milliseconds the whole call may take, redirect follow-ups and retries included */
+  timeoutMs?: number;
+  /** Position of the request in the client rate limit queue. Defaults to "normal" */
+  priority?: RequestPriority;
+}
+
+/**
+ * Priority of a request waiting in the client rate limit queue.
+ * Queued high priority requests start first, low priority requests last.
+ */
+export type RequestPriority = "high" | "normal" | "low";
+
+/**
+ * Snapshot of the client rate limit queue
+ */
+export interface RequestQueueStats {
+  /** Number of requests waiting for a slot */
+  queued: number;
+  /** Number of waiting requests per priority */
+  queuedByPriority: Record<RequestPriority, number>;
+  /** Number of requests sent and not completed yet */
+  inFlight: number;
+}
+
+/**
+ * Per-call options of methods iterating over the pages of a listing
+ */
+export interface PaginationOptions extends RequestOptions {
+  /** Maximum number of items to return across all pages. Unlimited when omitted */
+  maxItems?: number;
+}
+
+/**
+ * Per-call options of methods splitting their work into several requests
+ */
+export interface BatchRequestOptions extends RequestOptions {
+  /** Maximum number of requests in flight at once. Defaults to 4 */
+  concurrency?: number;
+  /** Maximum length of a request URL, query string included. Defaults to 2000 */
+  maxUrlLength?: number;
+  /** Scope the iTwins are looked up in, e.g. `all` for organization administrators. Defaults to memberOfItwin */
+  queryScope?: ITwinQueryScope;
+}
+
+/**
+ * Response of a method collecting every page of a listing: the items of all pages, without navigation links
+ */
+export type AllPagesResponse<TPage> = Omit<TPage, "_links">;
+
+/**
+ * Per-call options of methods that modify or delete an entity
+ */
+export interface ConditionalRequestOptions extends RequestOptions {
+  /**
+   * ETag of the entity version the change applies to, sent as `If-Match`.
+   * The change is rejected with a `PreconditionFailed` error if the entity was modified since.
+   */
+  ifMatch?: string;
+}
+
+/**
+ * Redirect followed while sending a request
+ */
+export interface RedirectHop {
+  /** URL of the request answered with the redirect */
+  url: string;
+  /** Status code of the redirect response, 0 for redirects followed by the browser */
+  status: number;
+  /** Method of the request answered with the redirect */
+  method: Method;
+  /** Absolute URL the redirect points to */
+  location: string;
+}
+
+/**
+ * Description of the request that produced a response
+ */
+export interface ResponseMeta {
+  /** URL requested by the caller */
+  url: string;
+  /** Method requested by the caller */
+  method: Method;
+  /** Time in milliseconds taken by the call, redirects and retries included */
+  durationMs: number;
+  /** Number of attempts made to send the request, retries included */
+  attempts: number;
+  /** URL of the final response, after redirects */
+  finalUrl: string;
+  /** Set when the response came from the client cache: "hit" without a request, "revalidated" after a 304 */
+  cache?: "hit" | "revalidated";
+  /** True when the call shared the network call of a concurrent identical GET request */
+  coalesced?: boolean;
+}
+
 /**
  * Standard response structure for all Bentley public API operations
  * @template T The type of data returned in the response
@@ -32,8 +133,46 @@ export interface BentleyAPIResponse<T> {
   data?: T;
   status: number;
   error?: ApimError;
+  /** Number of attempts made to send the request, retries included */
+  attempts?: number;
+  /** Redirects followed to get the response, in order. Undefined when no redirect was followed */
+  redirects?: RedirectHop[];
+  /**
+   * Headers of the final response keyed by lower-case name, e.g. `etag`, `location` or `x-correlation-id`.
+   * Undefined when no response was received.
+   */
+  headers?: Record<string, string>;
+  /** Description of the request that produced the response */
+  meta?: ResponseMeta;
+  /** ETag of the returned entity version, to pass as `ifMatch` to a later update or delete */
+  etag?: string;
 }
 
+/**
+ * Category of a failed request, set by the client on every error it returns.
+ * - network: the request could not reach the server (DNS, connection, CORS)
+ * - timeout: the request did not complete within its timeout
+ * - aborted: the request was cancelled by the caller
+ * - parse: a successful response body could not be parsed
+ * - unexpected-non-json: an error response body is not a JSON APIM error
+ * - redirect-policy: a redirect was rejected by the client redirect policy
+ * - server: the server returned an APIM error
+ * - circuit-open: the request was not sent because the circuit breaker of its host is open
+ * - validation: the request was not sent because its arguments are invalid
+ * - internal: the client failed before or while handling the request
+ */
+export type ErrorCategory =
+  | "network"
+  | "timeout"
+  | "aborted"
+  | "parse"
+  | "unexpected-non-json"
+  | "redirect-policy"
+  | "server"
+  | "circuit-open"
+  | "validation"
+  | "internal";
+
 /**
  * Error response structure from iTwins API
  */
@@ -42,6 +181,123 @@ export interface ApimError {
   message: string;
   details?: ErrorDetail[];
   target?: string;
+  /** Category of the failure, set by the client */
+  category?: ErrorCategory;
+  /** Original error that caused the failure, when the client caught one */
+  cause?: unknown;
+  /** Body of an error response that is not an APIM error: parsed JSON, text or a Blob */
+  body?: unknown;
+}
+
+/**
+ * Error returned when an `ifMatch` precondition fails (status 412)
+ */
+export interface PreconditionFailedError extends ApimError {
+  code: "PreconditionFailed";
+  /** ETag of the current entity version on the server, when the server provided it */
+  currentETag?: string;
+}
+
+/**
+ * Type guard to check whether an error is a failed `ifMatch` precondition
+ * @param error - Error of a response
+ * @returns True if the error is a PreconditionFailedError
+ *
+ * @example
+ * ```typescript
+ * const response = await client.updateItwin(token, iTwinId, { displayName: "New" }, { ifMatch: etag });
+ * if (isPreconditionFailedError(response.error)) {
+ *   console.log(`Modified by someone else, current version is ${response.error.currentETag}`);
+ * }
+ * ```
+ */
+export function isPreconditionFailedError(
+  error: ApimError | undefined
+): error is PreconditionFailedError {
+  return error?.code === "PreconditionFailed";
+}
+
+/**
+ * Error returned without sending the request while the circuit breaker of its host is open (status 503)
+ */
+export interface CircuitOpenError extends ApimError {
+  code: "CircuitOpen";
+  /** Host whose circuit is open */
+  host: string;
+  /** Time in milliseconds before the circuit lets a trial request through */
+  retryAfterMs: number;
+}
+
+/**
+ * Type guard to check whether an error comes from an open circuit breaker
+ * @param error - Error of a response
+ * @returns True if the error is a CircuitOpenError
+ *
+ * @example
+ * ```typescript
+ * const response = await client.getITwins(token);
+ * if (isCircuitOpenError(response.error)) {
+ *   console.log(`${response.error.host} is failing, retry in ${response.error.retryAfterMs} ms`);
+ * }
+ * ```
+ */
+export function isCircuitOpenError(error: ApimError | undefined): error is CircuitOpenError {
+  return error?.code === "CircuitOpen";
+}
+
+/**
+ * Error returned without sending the request when query arguments are invalid (status 400)
+ */
+export interface InvalidQueryArgumentError extends ApimError {
+  code: "InvalidQueryArgument";
+  /** One detail per offending query argument, whose name is the detail target */
+  details: ErrorDetail[];
+}
+
+/**
+ * Type guard to check whether an error comes from invalid query arguments
+ * @param error - Error of a response
+ * @returns True if the error is an InvalidQueryArgumentError
+ *
+ * @example
+ * ```typescript
+ * const response = await client.getITwins(token, { top: 5000, status: "Actve" });
+ * if (isInvalidQueryArgumentError(response.error)) {
+ *   response.error.details.forEach((detail) => console.log(detail.target, detail.message));
+ * }
+ * ```
+ */
+export function isInvalidQueryArgumentError(
+  error: ApimError | undefined
+): error is InvalidQueryArgumentError {
+  return error?.code === "InvalidQueryArgument";
+}
+
+/**
+ * Error thrown by iterators when a page request fails, carrying the failed response
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   for await (const iTwin of client.iterateITwins(token)) {
+ *     console.log(iTwin.displayName);
+ *   }
+ * } catch (error) {
+ *   if (error instanceof BentleyAPIResponseError) {
+ *     console.log(error.response.status, error.response.error?.code);
+ *   }
+ * }
+ * ```
+ */
+export class BentleyAPIResponseError extends Error {
+  /**
+   * Creates an error for a failed response
+   * @param response - The failed response
+   */
+  public constructor(public readonly response: BentleyAPIResponse<unknown>) {
+    super(response.error?.message ?? `The request failed with status ${response.status}.`);
+    this.name = "BentleyAPIResponseError";
+  }
 }
 
 /**
@@ -86,4 +342,25 @@ export interface ODataQueryParams {
   apply?: string;
   /** Specify response format (json, xml, etc.) */
   format?: string;
-}
\ No newline at end of file
+}
+
+/**
+ * OData query parameters accepted by the repository resource listings
+ */
+export type ODataListingQueryParams = Pick<
+  ODataQueryParams,
+  "search" | "skip" | "top" | "count" | "expand" | "apply" | "format"
+>;
+
+/**
+ * Total number of items matching a query, across all pages, returned when `count` is requested
+ */
+export interface TotalCount {
+  /** Number of items matching the query, read from the `@odata.count` annotation */
+  totalCount: number;
+}
+
+/**
+ * Response body of a listing, with a {@link TotalCount} when the query arguments request `count`
+ */
+export type WithTotalCount<TPage, TArg> = TArg extends { count: true } ? TPage & TotalCount : TPage;
\ No newline at end of file
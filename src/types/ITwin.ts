@@ -102,6 +102,32 @@ export interface MultiITwinRepresentationResponse {
   _links: Links;
 }
 
+/**
+ * iTwin properties that can be selected with `$select`
+ */
+export type ITwinSelectField = keyof ITwinRepresentation;
+
+/**
+ * Response interface for multiple iTwins narrowed to the selected properties.
+ */
+export interface MultiITwinSelectResponse<K extends ITwinSelectField> {
+  /** Array of iTwin objects holding only the selected properties */
+  iTwins: Pick<ITwinRepresentation, K>[];
+  /** Navigation links for pagination and related resources */
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  _links: Links;
+}
+
+/**
+ * Response interface for iTwins fetched by a list of IDs.
+ */
+export interface ITwinsByIdsResponse<TITwin> {
+  /** iTwins found, keyed by the requested ID */
+  iTwins: Map<string, TITwin>;
+  /** Requested IDs that do not exist, are not accessible to the user or are not GUIDs */
+  notFound: string[];
+}
+
 /**
  * Response interface for single iTwin operations in representation mode.
  */
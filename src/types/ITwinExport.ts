@@ -2,6 +2,9 @@
 * Copyright (c) Bentley Systems, Incorporated. All rights reserved.
 * See LICENSE.md in the project root for license terms and full copyright notice.
 *--------------------------------------------------------------------------------------------*/
+import type { ITwinFilter } from "../ITwinFilter";
+import type { ITwinSelectField } from "./ITwin";
+
 /**
  * Query scope options for iTwin export operations
  */
@@ -33,8 +36,9 @@ export interface ITwinExportRequestInfo {
    * Comma-delimited list of iTwin properties to include in export.
    * Keep the list as small as possible to increase speed and limit file size.
    * If not specified, exports minimal representation: id,class,subClass,type,number,displayName
+   * An array of property names is sent as a comma-delimited list.
    */
-  select?: string;
+  select?: string | ReadonlyArray<ITwinSelectField>;
   /**
    * OData filter to limit exported iTwins. Use subClass property for basic filtering,
    * then use filter for additional criteria. All text values are case insensitive.
@@ -43,8 +47,10 @@ export interface ITwinExportRequestInfo {
    * - status+in+['Active','Inactive']
    * - status+eq+'Active'+and+contains('test',number)+and+CreatedDateTime+ge+2023-01-01T00:00:00Z
    * - parentId+eq+'78202ffd-272b-4207-a7ad-7d2b1af5dafc'+and+(startswith('ABC',number)+or+startswith('ABC',displayName))
+   *
+   * A typed {@link ITwinFilter} is serialized as its expression.
    */
-  filter?: string;
+  filter?: string | ITwinFilter;
   /** Include inactive iTwins in the export */
   includeInactive?: boolean;
   /** Required output format for the export file */
@@ -0,0 +1,74 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import type { RequestOptions } from "./CommonApiTypes";
+import type { ITwinQueryScope } from "./ITwinsQueryArgs";
+import type { ITwinRepresentation } from "./ITwin";
+
+/**
+ * iTwin in a hierarchy, with its children
+ */
+export interface ITwinHierarchyNode {
+  /** The iTwin */
+  iTwin: ITwinRepresentation;
+  /** Number of levels between the node and the top of the hierarchy */
+  depth: number;
+  /** Nodes of the iTwins whose parent is this iTwin */
+  children: ITwinHierarchyNode[];
+}
+
+/**
+ * Kinds of inconsistencies found while walking a hierarchy
+ * - Cycle: following the parents of an iTwin leads back to it
+ * - MissingParent: the parent of an iTwin does not exist, is not accessible or is not part of the given iTwins
+ */
+export type ITwinHierarchyIssueCode = "Cycle" | "MissingParent";
+
+/**
+ * Inconsistency found while walking a hierarchy
+ */
+export interface ITwinHierarchyIssue {
+  /** Kind of inconsistency */
+  code: ITwinHierarchyIssueCode;
+  /** Id of the iTwin whose parent link is inconsistent */
+  iTwinId: string;
+  /** Id of the parent the iTwin links to */
+  parentId: string;
+  /** Description of the inconsistency */
+  message: string;
+}
+
+/**
+ * Tree of iTwins built from their parent links
+ */
+export interface ITwinHierarchy {
+  /** Top-level nodes of the tree */
+  roots: ITwinHierarchyNode[];
+  /** Every node of the tree, level by level across all roots: nodes of depth 0 first, then depth 1, and so on */
+  nodes: ITwinHierarchyNode[];
+  /** Inconsistencies found while building the tree */
+  issues: ITwinHierarchyIssue[];
+}
+
+/**
+ * Ancestors of an iTwin, from its parent up to the top of the hierarchy
+ */
+export interface ITwinAncestorsResponse {
+  /** Ancestors, the parent first and the top-level iTwin, usually the account, last */
+  ancestors: ITwinRepresentation[];
+  /** Inconsistencies that stopped the walk up the hierarchy */
+  issues: ITwinHierarchyIssue[];
+}
+
+/**
+ * Per-call options of methods walking down an iTwin hierarchy
+ */
+export interface HierarchyOptions extends RequestOptions {
+  /** Number of levels to walk down, 1 for the children only. Unlimited when omitted */
+  maxDepth?: number;
+  /** Maximum number of requests in flight at once. Defaults to 4 */
+  concurrency?: number;
+  /** Scope the children are listed in, e.g. `all` for organization administrators. Defaults to memberOfItwin */
+  queryScope?: ITwinQueryScope;
+}
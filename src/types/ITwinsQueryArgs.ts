@@ -2,16 +2,38 @@
 * Copyright (c) Bentley Systems, Incorporated. All rights reserved.
 * See LICENSE.md in the project root for license terms and full copyright notice.
 *--------------------------------------------------------------------------------------------*/
-import type { ODataQueryParams, ResultMode } from "./CommonApiTypes.js";
-import type { ITwinSubClass } from "./ITwin.js";
+import type { ODataQueryParams, ResultMode, WithTotalCount } from "./CommonApiTypes.js";
+import type { ITwinFilter } from "../ITwinFilter.js";
+import type {
+  ITwinMinimal,
+  ITwinRepresentation,
+  ITwinSelectField,
+  ITwinStatus,
+  ITwinSubClass,
+  MultiITwinMinimalResponse,
+  MultiITwinRepresentationResponse,
+  MultiITwinSelectResponse,
+} from "./ITwin.js";
 
 /**
  * Base set of query arguments for iTwins API operations
  */
 export interface ITwinsQueryArg extends ITwinsQueryArgsApi {
-  subClass?: ITwinSubClass;
-  status?: string;
-  type?: string;
+  /**
+   * Sub-classification of the iTwins, or a list of sub-classifications.
+   * `getITwins` sends a list of several sub-classifications as an OData `in` filter, other listings reject it.
+   */
+  subClass?: ITwinSubClass | ReadonlyArray<ITwinSubClass>;
+  /**
+   * Status of the iTwins, or a list of statuses.
+   * `getITwins` sends a list of several statuses as an OData `in` filter, other listings reject it.
+   */
+  status?: string | ReadonlyArray<ITwinStatus>;
+  /**
+   * Type of the iTwins, or a list of types.
+   * `getITwins` sends a list of several types as an OData `in` filter, other listings reject it.
+   */
+  type?: string | ReadonlyArray<string>;
   includeInactive?: boolean;
   displayName?: string;
   // eslint-disable-next-line id-denylist
@@ -41,7 +63,66 @@ export interface ITwinsQueryArgsApi
  *
  * Combines the base iTwins query arguments with advanced OData filtering, ordering, and field selection.
  */
-export type ITwinsGetQueryArg = ITwinsQueryArg & Pick<ODataQueryParams, "filter" | "orderby" | "select">;
+export type ITwinsGetQueryArg = ITwinsQueryArg &
+  Pick<ODataQueryParams, "count" | "expand" | "apply" | "format"> & {
+    /** Filter expression to apply to the query, as a string or a typed {@link ITwinFilter} */
+    filter?: string | ITwinFilter;
+    /**
+     * Order of the results, as a comma-separated string or an array of sort keys applied in turn,
+     * e.g. `["displayName", "createdDateTime desc"]`
+     */
+    orderby?: string | ReadonlyArray<ITwinOrderBy>;
+    /**
+     * Properties to include in the response, as a comma-separated string or an array of property names.
+     * An array narrows the response type to the selected properties.
+     */
+    select?: string | ReadonlyArray<ITwinSelectField>;
+  };
+
+/**
+ * iTwin properties results can be ordered by
+ */
+export type ITwinSortField =
+  | "displayName"
+  | "number"
+  | "type"
+  | "subClass"
+  | "status"
+  | "createdDateTime"
+  | "lastModifiedDateTime";
+
+/**
+ * Sort direction of an ordering key
+ */
+export type SortDirection = "asc" | "desc";
+
+/**
+ * Ordering key: a sortable iTwin property, optionally followed by its direction (ascending by default)
+ */
+export type ITwinOrderBy = ITwinSortField | `${ITwinSortField} ${SortDirection}`;
+
+/**
+ * iTwin returned by a query: the selected properties when `select` is an array,
+ * otherwise the minimal or full representation depending on `resultMode`.
+ */
+export type ITwinsQueryItem<T extends ITwinsGetQueryArg> = T["select"] extends ReadonlyArray<infer K extends ITwinSelectField>
+  ? Pick<ITwinRepresentation, K>
+  : T["resultMode"] extends "representation"
+    ? ITwinRepresentation
+    : ITwinMinimal;
+
+/**
+ * Response of an iTwins query: narrowed to the selected properties when `select` is an array,
+ * otherwise the minimal or full representation depending on `resultMode`, with a total count when `count` is requested.
+ */
+export type ITwinsQueryResponse<T extends ITwinsGetQueryArg> = WithTotalCount<
+  T["select"] extends ReadonlyArray<infer K extends ITwinSelectField>
+    ? MultiITwinSelectResponse<K>
+    : T["resultMode"] extends "representation"
+      ? MultiITwinRepresentationResponse
+      : MultiITwinMinimalResponse,
+  T
+>;
 
 /**
  * Optional query scope. MemberOfITwin is the default. This is used to expand the scope of the query to all iTwins you have access to, not just ones that you are a member of, which only applies to organization administrators.
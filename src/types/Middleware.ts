@@ -0,0 +1,52 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import type { BentleyAPIResponse, RequestConfig } from "./CommonApiTypes.js";
+
+/**
+ * Information about the call a middleware runs for
+ */
+export interface MiddlewareContext {
+  /** Number of redirects followed before the current request, 0 for the initial request */
+  redirectCount: number;
+  /** Last request configuration prepared for the call, undefined if none could be created */
+  request?: RequestConfig;
+  /** Abort signal of the call, if the caller provided a signal or a timeout */
+  signal?: AbortSignal;
+  /** State shared by every hook invocation of a single call, e.g. to measure its duration */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Synthetic response returned by a request hook to skip sending the request
+ */
+export interface MiddlewareShortCircuit {
+  /** Response returned to the caller instead of sending the request */
+  response: BentleyAPIResponse<unknown>;
+}
+
+/**
+ * Result of a request hook: a replacement request configuration, a synthetic response,
+ * or nothing to keep the (possibly mutated) request configuration
+ */
+export type MiddlewareRequestResult = RequestConfig | MiddlewareShortCircuit | void;
+
+/**
+ * Interceptor plugged into the request pipeline of a client.
+ *
+ * Request hooks run in registration order before every request is sent, redirect hops included.
+ * Response hooks run once per call on the final response, in reverse registration order.
+ */
+export interface BentleyAPIMiddleware {
+  /** Inspects or modifies a request before it is sent, or short-circuits it with a synthetic response */
+  onRequest?: (
+    request: RequestConfig,
+    context: MiddlewareContext
+  ) => MiddlewareRequestResult | Promise<MiddlewareRequestResult>;
+  /** Inspects or transforms the final response, returning nothing keeps the current response */
+  onResponse?: (
+    response: BentleyAPIResponse<unknown>,
+    context: MiddlewareContext
+  ) => BentleyAPIResponse<unknown> | void | Promise<BentleyAPIResponse<unknown> | void>;
+}